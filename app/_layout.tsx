@@ -5,6 +5,8 @@ import * as SplashScreen from "expo-splash-screen";
 import React, { useEffect } from "react";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 
+import { ThemeProvider } from "@/components/ThemeProvider";
+
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
 
@@ -14,6 +16,14 @@ function RootLayoutNav() {
   return (
     <Stack screenOptions={{ headerBackTitle: "Back" }}>
       <Stack.Screen name="index" options={{ headerShown: false }} />
+      <Stack.Screen name="replays" options={{ title: "Replays" }} />
+      <Stack.Screen name="leaderboard" options={{ title: "Leaderboard" }} />
+      <Stack.Screen name="levels" options={{ title: "Levels" }} />
+      <Stack.Screen name="achievements" options={{ title: "Achievements" }} />
+      <Stack.Screen name="history" options={{ title: "Run History" }} />
+      <Stack.Screen name="shop" options={{ title: "Shop" }} />
+      <Stack.Screen name="editor" options={{ title: "Level Editor" }} />
+      <Stack.Screen name="settings" options={{ title: "Settings" }} />
     </Stack>
   );
 }
@@ -26,7 +36,9 @@ export default function RootLayout() {
   return (
     <QueryClientProvider client={queryClient}>
       <GestureHandlerRootView>
-        <RootLayoutNav />
+        <ThemeProvider>
+          <RootLayoutNav />
+        </ThemeProvider>
       </GestureHandlerRootView>
     </QueryClientProvider>
   );
@@ -0,0 +1,166 @@
+import React, { useCallback, useState } from 'react';
+import { FlatList, StyleSheet, Text, View } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { Lock, Trophy } from 'lucide-react-native';
+
+import { ACHIEVEMENTS, createRunStats, type Achievement, type LifetimeStats } from '@/game/achievements';
+import { PIXELS_PER_METER, TIME_STEP } from '@/game/constants';
+import { createAchievementProgress, loadAchievements, type AchievementProgress } from '@/storage/achievements';
+
+// Lifetime progress is shown without a run in progress
+const NO_RUN = createRunStats();
+
+function formatPlayTime(ticks: number): string {
+  const minutes = Math.floor((ticks * TIME_STEP) / 60000);
+  return minutes < 60 ? `${minutes}M` : `${Math.floor(minutes / 60)}H ${minutes % 60}M`;
+}
+
+function AchievementRow({
+  achievement,
+  unlockedAt,
+  lifetime,
+}: {
+  achievement: Achievement;
+  unlockedAt: string | undefined;
+  lifetime: LifetimeStats;
+}) {
+  const Icon = unlockedAt ? Trophy : Lock;
+  const progress = Math.min(achievement.progress(NO_RUN, lifetime), achievement.goal);
+
+  return (
+    <View testID={`achievement-${achievement.id}`} style={[styles.row, !unlockedAt && styles.lockedRow]}>
+      <Icon size={28} color={unlockedAt ? '#ffd54f' : '#37474f'} strokeWidth={2.5} />
+      <View style={styles.rowInfo}>
+        <Text style={[styles.name, !unlockedAt && styles.lockedName]}>{achievement.name}</Text>
+        <Text style={styles.description}>{achievement.description}</Text>
+        {unlockedAt ? (
+          <Text style={styles.meta}>UNLOCKED {new Date(unlockedAt).toLocaleDateString()}</Text>
+        ) : achievement.scope === 'lifetime' ? (
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${(progress / achievement.goal) * 100}%` }]} />
+            <Text style={styles.progressText}>{progress} / {achievement.goal}</Text>
+          </View>
+        ) : (
+          <Text style={styles.meta}>IN A SINGLE RUN</Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+export default function AchievementsScreen() {
+  const [progress, setProgress] = useState<AchievementProgress>(createAchievementProgress);
+
+  const refresh = useCallback(() => {
+    loadAchievements()
+      .then(setProgress)
+      .catch(error => console.log('Error loading achievements:', error));
+  }, []);
+
+  useFocusEffect(refresh);
+
+  const { unlocked, lifetime } = progress;
+  const unlockedCount = ACHIEVEMENTS.filter(achievement => achievement.id in unlocked).length;
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={ACHIEVEMENTS}
+        keyExtractor={achievement => achievement.id}
+        renderItem={({ item }) => (
+          <AchievementRow achievement={item} unlockedAt={unlocked[item.id]} lifetime={lifetime} />
+        )}
+        contentContainerStyle={styles.list}
+        ListHeaderComponent={
+          <View style={styles.summary}>
+            <Text style={styles.summaryTitle}>{unlockedCount} / {ACHIEVEMENTS.length} UNLOCKED</Text>
+            <Text style={styles.summaryStats}>
+              {lifetime.runs} RUNS · {Math.floor(lifetime.distance / PIXELS_PER_METER)}M · {lifetime.jumps} JUMPS ·{' '}
+              {lifetime.gifts} GIFTS · {formatPlayTime(lifetime.ticks)} PLAYED
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#050510',
+  },
+  list: {
+    padding: 16,
+    gap: 8,
+  },
+  summary: {
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  summaryTitle: {
+    fontFamily: 'Minecraft',
+    fontSize: 28,
+    color: '#4fc3f7',
+  },
+  summaryStats: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#b0bec5',
+    textAlign: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#1a237e',
+    backgroundColor: '#0a0a20',
+  },
+  lockedRow: {
+    opacity: 0.7,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  name: {
+    fontFamily: 'Minecraft',
+    fontSize: 24,
+    color: '#fff',
+  },
+  lockedName: {
+    color: '#90a4ae',
+  },
+  description: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#b0bec5',
+  },
+  meta: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#81d4fa',
+    marginTop: 4,
+  },
+  progressTrack: {
+    height: 18,
+    marginTop: 6,
+    borderWidth: 1,
+    borderColor: '#1a237e',
+    justifyContent: 'center',
+  },
+  progressFill: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    backgroundColor: '#1a237e',
+  },
+  progressText: {
+    fontFamily: 'Minecraft',
+    fontSize: 14,
+    color: '#81d4fa',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,553 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Pressable,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+  useWindowDimensions,
+  type GestureResponderEvent,
+  type LayoutChangeEvent,
+  type NativeScrollEvent,
+  type NativeSyntheticEvent,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+
+import { Collectible, FinishLine, Hazard, Tile } from '@/components/CourseSprites';
+import { WorldView } from '@/components/WorldView';
+import { fitViewport } from '@/hooks/useViewport';
+import { SURFACE_MAX_OFFSET, SURFACE_MIN_OFFSET, WORLD_HEIGHT, WORLD_WIDTH } from '@/game/constants';
+import {
+  addGift,
+  courseLength,
+  createDraft,
+  cycleTileType,
+  deleteCollectible,
+  deleteTile,
+  finalizeDraft,
+  insertTile,
+  moveCollectible,
+  moveTile,
+  raiseTile,
+  resizeTile,
+  type EditorSelection,
+} from '@/game/editor';
+import { LevelFormatError, serializeLevel, validateLevel, type Level } from '@/game/level';
+import { createInitialState, createWorld } from '@/game/simulation';
+import type { TileType } from '@/game/types';
+import {
+  deleteCustomLevel,
+  listCustomLevels,
+  loadLevelDraft,
+  saveCustomLevel,
+  saveLevelDraft,
+} from '@/storage/customLevels';
+
+const WORLD = createWorld(WORLD_WIDTH, WORLD_HEIGHT);
+// The preview fits the band of the world a course lives in: from above the highest gift on the
+// highest tile down to a strip under the ground line
+const PREVIEW_TOP = WORLD.groundY + SURFACE_MIN_OFFSET - 320;
+const PREVIEW_BOTTOM = WORLD.groundY + 80;
+// Timeline pixels per world unit
+const TIMELINE_SCALE = 0.25;
+const TIMELINE_HEIGHT = 48;
+const NUDGE = 10;
+const HIT_SLOP = 24;
+
+const TIMELINE_COLORS: Record<TileType, string> = {
+  normal: '#e3f2fd',
+  icy: '#4dd0e1',
+  crumbling: '#78909c',
+  bouncy: '#bbdefb',
+  moving: '#b39ddb',
+};
+
+function ToolButton({
+  label,
+  onPress,
+  disabled = false,
+}: {
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Pressable style={[styles.button, disabled && styles.buttonDisabled]} disabled={disabled} onPress={onPress}>
+      <Text style={styles.buttonText}>{label}</Text>
+    </Pressable>
+  );
+}
+
+export default function EditorScreen() {
+  const router = useRouter();
+  const { from } = useLocalSearchParams<{ from?: string }>();
+  const [draft, setDraft] = useState<Level>(createDraft);
+  const [loaded, setLoaded] = useState(false);
+  const [selection, setSelection] = useState<EditorSelection>(null);
+  const [scrollX, setScrollX] = useState(0);
+  const [previewSize, setPreviewSize] = useState({ width: 0, height: 0 });
+  const [savedLevels, setSavedLevels] = useState<Level[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const timelineRef = useRef<ScrollView>(null);
+  const dimensions = useWindowDimensions();
+
+  // Timeline offset 0 is the left edge of the start tile
+  const origin = draft.tiles[0].x;
+
+  // Timeline jumps wait for the next render, once the content has grown to fit the new draft
+  const pendingScrollRef = useRef<number | null>(null);
+  const scrollTo = useCallback((x: number) => {
+    pendingScrollRef.current = x;
+    setScrollX(x);
+  }, []);
+
+  useEffect(() => {
+    const target = pendingScrollRef.current;
+    if (target === null) return;
+    pendingScrollRef.current = null;
+    const x = Math.min(Math.max(target, origin), courseLength(draft));
+    setScrollX(x);
+    timelineRef.current?.scrollTo({ x: (x - origin) * TIMELINE_SCALE, animated: false });
+  }, [draft, origin, scrollX]);
+
+  const refreshSaved = useCallback(() => {
+    listCustomLevels()
+      .then(setSavedLevels)
+      .catch(error => console.log('Error listing custom levels:', error));
+  }, []);
+
+  // Pick up where the last session left off; returning from a play-test also brings back the
+  // spot it started from
+  useEffect(() => {
+    loadLevelDraft()
+      .then(level => {
+        if (level) setDraft(level);
+        // Anything out of range is clamped to the course, so no `from` means the start tile
+        const x = Number(from);
+        scrollTo(from !== undefined && Number.isFinite(x) ? x : -Infinity);
+        setLoaded(true);
+      })
+      .catch(error => {
+        console.log('Error loading level draft:', error);
+        setLoaded(true);
+      });
+    refreshSaved();
+  }, [from, refreshSaved, scrollTo]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    saveLevelDraft(finalizeDraft(draft)).catch(error => console.log('Error saving level draft:', error));
+  }, [draft, loaded]);
+
+  // The preview is a real simulation at tick 0, so it shows exactly what a run would start with
+  const preview = useMemo(() => createInitialState(WORLD, 0, finalizeDraft(draft)), [draft]);
+  const viewport = useMemo(
+    () => fitViewport(previewSize.width, previewSize.height, WORLD_WIDTH, PREVIEW_BOTTOM - PREVIEW_TOP, PREVIEW_TOP),
+    [previewSize],
+  );
+
+  const edit = useCallback((level: Level, next: EditorSelection = selection) => {
+    setDraft(level);
+    setSelection(next);
+    setStatus(null);
+    setError(null);
+  }, [selection]);
+
+  const handlePreviewLayout = useCallback((event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setPreviewSize({ width, height });
+  }, []);
+
+  const handleTimelineScroll = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    setScrollX(origin + event.nativeEvent.contentOffset.x / TIMELINE_SCALE);
+  }, [origin]);
+
+  // Taps pick the gift under the finger first, then the tile
+  const handlePreviewPress = useCallback((event: GestureResponderEvent) => {
+    const { locationX, locationY } = event.nativeEvent;
+    const x = scrollX + (locationX - viewport.offsetX) / viewport.scale - WORLD_WIDTH / 2;
+    const y = (locationY - viewport.offsetY) / viewport.scale;
+
+    const collectibleIndex = preview.collectibles.findIndex(c =>
+      Math.abs(x - (c.x + 20)) <= HIT_SLOP && Math.abs(y - (c.y + 20)) <= HIT_SLOP,
+    );
+    if (collectibleIndex >= 0) {
+      setSelection({ kind: 'collectible', index: collectibleIndex });
+      return;
+    }
+    const tileIndex = preview.tiles.findIndex(t =>
+      Math.abs(x - t.x) <= t.width / 2 && y >= t.surfaceY - HIT_SLOP,
+    );
+    setSelection(tileIndex >= 0 ? { kind: 'tile', index: tileIndex } : null);
+  }, [preview, scrollX, viewport]);
+
+  const handleAddTile = useCallback(() => {
+    const { level, index } = insertTile(draft, scrollX);
+    edit(level, { kind: 'tile', index });
+    const tile = level.tiles[index];
+    scrollTo(tile.x + tile.width / 2);
+  }, [draft, scrollX, edit, scrollTo]);
+
+  const handleAddGift = useCallback(() => {
+    const added = addGift(draft, scrollX);
+    if (!added) {
+      setError('Gifts have to float above a tile');
+      return;
+    }
+    edit(added.level, { kind: 'collectible', index: added.index });
+  }, [draft, scrollX, edit]);
+
+  // Validates the finished level, reporting the first problem instead of throwing
+  const checkedLevel = useCallback((): Level | null => {
+    try {
+      return validateLevel(finalizeDraft(draft));
+    } catch (error) {
+      if (error instanceof LevelFormatError) {
+        setError(error.message);
+        return null;
+      }
+      throw error;
+    }
+  }, [draft]);
+
+  const handlePlaytest = useCallback(async () => {
+    const level = checkedLevel();
+    if (!level) return;
+    try {
+      await saveLevelDraft(level);
+      router.navigate({ pathname: '/', params: { playtest: String(Math.round(Math.max(scrollX, 0))) } });
+    } catch (error) {
+      console.log('Error starting play-test:', error);
+      setError('Could not start the play-test');
+    }
+  }, [checkedLevel, router, scrollX]);
+
+  const handleSave = useCallback(async () => {
+    const level = checkedLevel();
+    if (!level) return;
+    try {
+      await saveCustomLevel(level);
+      setStatus(`SAVED AS ${level.id.toUpperCase()}`);
+      refreshSaved();
+    } catch (error) {
+      console.log('Error saving level:', error);
+      setError('Could not save the level');
+    }
+  }, [checkedLevel, refreshSaved]);
+
+  const handleExport = useCallback(async () => {
+    const level = checkedLevel();
+    if (!level) return;
+    try {
+      await Share.share({ message: serializeLevel(level) });
+    } catch (error) {
+      console.log('Error exporting level:', error);
+    }
+  }, [checkedLevel]);
+
+  const handleOpen = useCallback((level: Level) => {
+    edit(level, null);
+    scrollTo(level.tiles[0].x);
+  }, [edit, scrollTo]);
+
+  const handleNew = useCallback(() => {
+    handleOpen(createDraft());
+  }, [handleOpen]);
+
+  const handleDeleteSaved = useCallback(async (level: Level) => {
+    try {
+      await deleteCustomLevel(level.id);
+      refreshSaved();
+    } catch (error) {
+      console.log('Error deleting level:', error);
+      setError('Could not delete the level');
+    }
+  }, [refreshSaved]);
+
+  const selectedTile = selection?.kind === 'tile' ? draft.tiles[selection.index] : undefined;
+  const selectedCollectible = selection?.kind === 'collectible' ? draft.collectibles[selection.index] : undefined;
+  const selectedTileData = selection?.kind === 'tile' ? preview.tiles[selection.index] : undefined;
+  const selectedCollectibleData = selection?.kind === 'collectible' ? preview.collectibles[selection.index] : undefined;
+  const timelineWidth = (courseLength(draft) - origin) * TIMELINE_SCALE;
+
+  return (
+    <View style={styles.container}>
+      <Pressable testID="editor-preview" style={styles.preview} onLayout={handlePreviewLayout} onPress={handlePreviewPress}>
+        {previewSize.width > 0 && (
+          <WorldView viewport={viewport}>
+            {preview.tiles.map(tile => <Tile key={tile.id} tile={tile} cameraX={scrollX} />)}
+            {preview.collectibles.map(col => <Collectible key={col.id} collectible={col} cameraX={scrollX} />)}
+            {preview.hazards.map(hazard => <Hazard key={hazard.id} hazard={hazard} cameraX={scrollX} />)}
+            {preview.finishX !== null && <FinishLine finishX={preview.finishX} cameraX={scrollX} />}
+            {selectedTileData && (
+              <View
+                style={[styles.selection, {
+                  left: selectedTileData.x - scrollX + WORLD_WIDTH / 2 - selectedTileData.width / 2,
+                  top: selectedTileData.surfaceY - 4,
+                  width: selectedTileData.width,
+                  height: WORLD_HEIGHT - selectedTileData.surfaceY + 4,
+                }]}
+              />
+            )}
+            {selectedCollectibleData && (
+              <View
+                style={[styles.selection, {
+                  left: selectedCollectibleData.x - scrollX + WORLD_WIDTH / 2 - 4,
+                  top: selectedCollectibleData.y - 4,
+                  width: 48,
+                  height: 48,
+                }]}
+              />
+            )}
+            <View style={styles.startMarker} />
+          </WorldView>
+        )}
+        <Text
+          pointerEvents="none"
+          style={[styles.startLabel, { left: viewport.offsetX + (WORLD_WIDTH / 2) * viewport.scale + 8 }]}
+        >PLAY FROM HERE · {Math.round(scrollX)}</Text>
+      </Pressable>
+
+      <View style={styles.timeline}>
+        <ScrollView
+          ref={timelineRef}
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          onScroll={handleTimelineScroll}
+          scrollEventThrottle={16}
+          contentContainerStyle={{ paddingHorizontal: dimensions.width / 2 }}
+        >
+          <View style={{ width: timelineWidth, height: TIMELINE_HEIGHT }}>
+            {draft.tiles.map((tile, i) => (
+              <View
+                key={`tile-${i}`}
+                style={[styles.timelineTile, {
+                  left: (tile.x - origin) * TIMELINE_SCALE,
+                  width: tile.width * TIMELINE_SCALE,
+                  top: 10 + ((tile.surface - SURFACE_MIN_OFFSET) / (SURFACE_MAX_OFFSET - SURFACE_MIN_OFFSET)) * 24,
+                  backgroundColor: TIMELINE_COLORS[tile.type],
+                }, selection?.kind === 'tile' && selection.index === i && styles.timelineSelected]}
+              />
+            ))}
+            {draft.collectibles.map((collectible, i) => (
+              <View
+                key={`gift-${i}`}
+                style={[styles.timelineGift, { left: (collectible.x - origin) * TIMELINE_SCALE - 2 }]}
+              />
+            ))}
+          </View>
+        </ScrollView>
+        <View pointerEvents="none" style={styles.timelineMarker} />
+      </View>
+
+      <View style={styles.toolbar}>
+        <ToolButton label="+ TILE" onPress={handleAddTile} />
+        <ToolButton label="+ GIFT" onPress={handleAddGift} />
+        {selectedTile && selection && (
+          <>
+            <ToolButton label="WIDER" onPress={() => edit(resizeTile(draft, selection.index, NUDGE * 2))} />
+            <ToolButton label="NARROWER" onPress={() => edit(resizeTile(draft, selection.index, -NUDGE * 2))} />
+            <ToolButton label="◀ GAP" disabled={selection.index === 0} onPress={() => edit(moveTile(draft, selection.index, -NUDGE))} />
+            <ToolButton label="GAP ▶" disabled={selection.index === 0} onPress={() => edit(moveTile(draft, selection.index, NUDGE))} />
+            <ToolButton label="▲" onPress={() => edit(raiseTile(draft, selection.index, -NUDGE))} />
+            <ToolButton label="▼" onPress={() => edit(raiseTile(draft, selection.index, NUDGE))} />
+            <ToolButton
+              label={selectedTile.type.toUpperCase()}
+              disabled={selection.index === 0}
+              onPress={() => edit(cycleTileType(draft, selection.index))}
+            />
+            <ToolButton
+              label="DELETE"
+              disabled={selection.index === 0}
+              onPress={() => edit(deleteTile(draft, selection.index), null)}
+            />
+          </>
+        )}
+        {selectedCollectible && selection && (
+          <>
+            <ToolButton label="◀" onPress={() => edit(moveCollectible(draft, selection.index, -NUDGE, 0))} />
+            <ToolButton label="▶" onPress={() => edit(moveCollectible(draft, selection.index, NUDGE, 0))} />
+            <ToolButton label="▲" onPress={() => edit(moveCollectible(draft, selection.index, 0, NUDGE))} />
+            <ToolButton label="▼" onPress={() => edit(moveCollectible(draft, selection.index, 0, -NUDGE))} />
+            <ToolButton label="DELETE" onPress={() => edit(deleteCollectible(draft, selection.index), null)} />
+          </>
+        )}
+      </View>
+
+      <View style={styles.footer}>
+        <TextInput
+          testID="editor-name-input"
+          style={styles.nameInput}
+          value={draft.name}
+          onChangeText={name => edit({ ...draft, name })}
+          placeholder="LEVEL NAME"
+          placeholderTextColor="#546e7a"
+          autoCorrect={false}
+        />
+        {error && <Text style={styles.error}>{error}</Text>}
+        {status && <Text style={styles.status}>{status}</Text>}
+        <View style={styles.actions}>
+          <ToolButton label="PLAY-TEST" onPress={handlePlaytest} />
+          <ToolButton label="SAVE" onPress={handleSave} />
+          <ToolButton label="EXPORT" onPress={handleExport} />
+          <ToolButton label="NEW" onPress={handleNew} />
+        </View>
+        {savedLevels.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.savedList}>
+            {savedLevels.map(level => (
+              <View key={level.id} style={styles.savedChip}>
+                <Pressable onPress={() => handleOpen(level)}>
+                  <Text style={styles.savedName}>{level.name.toUpperCase()}</Text>
+                </Pressable>
+                <Pressable onPress={() => handleDeleteSaved(level)} hitSlop={8}>
+                  <Text style={styles.savedDelete}>✕</Text>
+                </Pressable>
+              </View>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#050510',
+  },
+  preview: {
+    flex: 1,
+    overflow: 'hidden',
+  },
+  selection: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: '#ffd54f',
+    zIndex: 30,
+  },
+  startMarker: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: WORLD_WIDTH / 2 - 1,
+    width: 2,
+    backgroundColor: 'rgba(79,195,247,0.6)',
+    zIndex: 30,
+  },
+  startLabel: {
+    position: 'absolute',
+    top: 8,
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#81d4fa',
+    zIndex: 30,
+  },
+  timeline: {
+    height: TIMELINE_HEIGHT,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#1a237e',
+    backgroundColor: '#0a0a20',
+  },
+  timelineTile: {
+    position: 'absolute',
+    height: 4,
+  },
+  timelineSelected: {
+    backgroundColor: '#ffd54f',
+  },
+  timelineGift: {
+    position: 'absolute',
+    top: 2,
+    width: 4,
+    height: 4,
+    backgroundColor: '#d32f2f',
+  },
+  timelineMarker: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: '50%',
+    marginLeft: -1,
+    width: 2,
+    backgroundColor: '#4fc3f7',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    padding: 8,
+  },
+  footer: {
+    padding: 8,
+    paddingBottom: 24,
+    gap: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#1a237e',
+  },
+  nameInput: {
+    fontFamily: 'Minecraft',
+    fontSize: 20,
+    color: '#fff',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderWidth: 1,
+    borderColor: '#37474f',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  button: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderWidth: 1,
+    borderColor: '#4fc3f7',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    fontFamily: 'Minecraft',
+    fontSize: 18,
+    color: '#81d4fa',
+  },
+  error: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#ff5252',
+  },
+  status: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#69f0ae',
+  },
+  savedList: {
+    gap: 6,
+  },
+  savedChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderWidth: 1,
+    borderColor: '#1a237e',
+    backgroundColor: '#0a0a20',
+  },
+  savedName: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#fff',
+  },
+  savedDelete: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#ff5252',
+  },
+});
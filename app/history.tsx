@@ -0,0 +1,239 @@
+import React, { useCallback, useState } from 'react';
+import { FlatList, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+
+import { findLevel } from '@/game/levels';
+import { formatRunTime, type RunSummary } from '@/game/summary';
+import type { DeathCause, GameMode } from '@/game/types';
+import { clearRunHistory, loadRunHistory, RUN_HISTORY_SIZE } from '@/storage/runHistory';
+
+const CHART_HEIGHT = 80;
+
+const MODE_LABELS: Record<GameMode, string> = {
+  endless: 'ENDLESS',
+  daily: 'DAILY',
+  custom: 'CUSTOM',
+  level: 'LEVEL',
+};
+
+const CAUSE_LABELS: Record<DeathCause, string> = {
+  fell: 'FELL',
+  wall: 'LEDGE',
+  iceSpike: 'ICE SPIKE',
+  snowman: 'SNOWMAN',
+  icicle: 'ICICLE',
+  log: 'LOG',
+};
+
+// One bar per run, oldest on the left, scaled to the tallest
+function BarChart({ title, values, color }: { title: string; values: readonly number[]; color: string }) {
+  const max = Math.max(...values, 1);
+  return (
+    <View style={styles.chart}>
+      <View style={styles.chartHeader}>
+        <Text style={styles.chartTitle}>{title}</Text>
+        <Text style={styles.chartMax}>MAX {max}</Text>
+      </View>
+      <View style={styles.bars}>
+        {values.map((value, i) => (
+          <View key={i} style={[styles.bar, { height: Math.max((value / max) * CHART_HEIGHT, 1), backgroundColor: color }]} />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+function RunRow({ run }: { run: RunSummary }) {
+  const level = run.levelId !== undefined ? findLevel(run.levelId) : undefined;
+  return (
+    <View style={styles.row}>
+      <View style={styles.rowHeader}>
+        <Text style={styles.score}>{run.score}</Text>
+        <Text style={[styles.outcome, run.cause === null && styles.finished]}>
+          {run.cause === null ? 'FINISHED' : CAUSE_LABELS[run.cause]}
+        </Text>
+      </View>
+      <Text style={styles.meta}>
+        {run.distance}M · {formatRunTime(run.time)} · {run.gifts}/{run.giftsSpawned} GIFTS · {run.nearMisses} NEAR MISSES
+      </Text>
+      <Text style={styles.meta}>
+        {level ? level.name.toUpperCase() : `${MODE_LABELS[run.mode]} · SEED ${run.seed}`} ·{' '}
+        {new Date(run.date).toLocaleString()}
+      </Text>
+    </View>
+  );
+}
+
+export default function HistoryScreen() {
+  const [history, setHistory] = useState<RunSummary[]>([]);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const refresh = useCallback(() => {
+    loadRunHistory()
+      .then(setHistory)
+      .catch(error => console.log('Error loading run history:', error));
+  }, []);
+
+  useFocusEffect(refresh);
+
+  // Clearing is destructive, so it takes a second tap to confirm
+  const handleClear = useCallback(async () => {
+    if (!confirmClear) {
+      setConfirmClear(true);
+      return;
+    }
+    setConfirmClear(false);
+    try {
+      await clearRunHistory();
+    } catch (error) {
+      console.log('Error clearing run history:', error);
+    }
+    refresh();
+  }, [confirmClear, refresh]);
+
+  // Charts read left to right, so they take the runs oldest first
+  const oldestFirst = [...history].reverse();
+  const best = history.reduce((top, run) => Math.max(top, run.score), 0);
+  const average = history.length > 0 ? Math.round(history.reduce((sum, run) => sum + run.score, 0) / history.length) : 0;
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={history}
+        keyExtractor={(run, index) => `${run.date}-${index}`}
+        renderItem={({ item }) => <RunRow run={item} />}
+        contentContainerStyle={styles.list}
+        ListHeaderComponent={
+          history.length > 0 ? (
+            <View style={styles.summary}>
+              <Text style={styles.summaryTitle}>LAST {history.length} OF {RUN_HISTORY_SIZE} RUNS</Text>
+              <Text style={styles.summaryStats}>BEST {best} · AVERAGE {average}</Text>
+              <BarChart title="SCORE" values={oldestFirst.map(run => run.score)} color="#4fc3f7" />
+              <BarChart title="DISTANCE (M)" values={oldestFirst.map(run => run.distance)} color="#69f0ae" />
+            </View>
+          ) : null
+        }
+        ListEmptyComponent={<Text style={styles.empty}>NO RUNS YET</Text>}
+      />
+
+      <Pressable
+        testID="clear-history-button"
+        style={[styles.clearButton, history.length === 0 && styles.clearButtonDisabled]}
+        disabled={history.length === 0}
+        onPress={handleClear}
+      >
+        <Text style={styles.clearText}>{confirmClear ? 'TAP AGAIN TO CLEAR' : 'CLEAR HISTORY'}</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#050510',
+  },
+  list: {
+    padding: 16,
+    gap: 8,
+  },
+  summary: {
+    gap: 8,
+    marginBottom: 8,
+  },
+  summaryTitle: {
+    fontFamily: 'Minecraft',
+    fontSize: 28,
+    color: '#fff',
+    textAlign: 'center',
+  },
+  summaryStats: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#b0bec5',
+    textAlign: 'center',
+  },
+  chart: {
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#1a237e',
+    backgroundColor: '#0a0a20',
+  },
+  chartHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  chartTitle: {
+    fontFamily: 'Minecraft',
+    fontSize: 18,
+    color: '#4fc3f7',
+    letterSpacing: 1,
+  },
+  chartMax: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#b0bec5',
+  },
+  bars: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 1,
+  },
+  bar: {
+    flex: 1,
+    maxWidth: 12,
+  },
+  empty: {
+    fontFamily: 'Minecraft',
+    fontSize: 24,
+    color: '#546e7a',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  row: {
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#1a237e',
+    backgroundColor: '#0a0a20',
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  score: {
+    fontFamily: 'Minecraft',
+    fontSize: 28,
+    color: '#fff',
+  },
+  outcome: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#ff8a80',
+  },
+  finished: {
+    color: '#69f0ae',
+  },
+  meta: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#81d4fa',
+  },
+  clearButton: {
+    margin: 16,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: '#ff5252',
+    alignItems: 'center',
+  },
+  clearButtonDisabled: {
+    opacity: 0.4,
+  },
+  clearText: {
+    fontFamily: 'Minecraft',
+    fontSize: 20,
+    color: '#ff5252',
+  },
+});
@@ -1,123 +1,170 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
+  AppState,
   View,
   StyleSheet,
-  Dimensions,
   Text,
-  Animated,
   Platform,
   StatusBar,
-  PanResponder,
+  Pressable,
+  TextInput,
 } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import { useFonts } from 'expo-font';
 import { Audio } from 'expo-av';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 
-const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
-
-const TARGET_FPS = 60;
-const TIME_STEP = 1000 / TARGET_FPS;
-
-const GRAVITY = 0.6;
-const JUMP_FORCE = -14;
-const DOUBLE_JUMP_FORCE = -11;
-const TERMINAL_VELOCITY = 20;
-const INITIAL_SPEED = 3.5;
-const SPEED_INCREMENT = 0.0008;
-const MAX_SPEED = 9;
-const SPAWN_AHEAD_DISTANCE = SCREEN_WIDTH * 1.5;
-
-const SNOWBALL_SIZE = 40;
-const TILE_HEIGHT = 60;
-const TILE_Y = SCREEN_HEIGHT - 200;
+import {
+  MAX_FRAME_TIME,
+  PIXELS_PER_METER,
+  TIME_STEP,
+  WORLD_HEIGHT,
+  WORLD_WIDTH,
+} from '@/game/constants';
+import { AchievementToast } from '@/components/AchievementToast';
+import { ComboMeter } from '@/components/ComboMeter';
+import { MissionList } from '@/components/MissionList';
+import { PowerUpHud } from '@/components/PowerUpHud';
+import { RunSummaryCard } from '@/components/RunSummaryCard';
+import { ScoreBreakdown } from '@/components/ScoreBreakdown';
+import { ScorePopups, type ScorePopupsHandle } from '@/components/ScorePopups';
+import { WorldRenderer, type WorldRendererHandle } from '@/components/WorldRenderer';
+import { WorldView } from '@/components/WorldView';
+import { fontStyle, type Theme } from '@/constants/colors';
+import { useGameInput } from '@/hooks/useGameInput';
+import { useTheme, useThemedStyles, useTileTheme } from '@/hooks/useTheme';
+import { useViewport } from '@/hooks/useViewport';
+import {
+  addRunStats,
+  countStep,
+  createRunStats,
+  findUnlocks,
+  type Achievement,
+  type RunStats,
+} from '@/game/achievements';
+import {
+  autopilotInput,
+  BENCHMARK_DURATION,
+  BENCHMARK_SEED,
+  createBenchmark,
+  recordFrame,
+  summarizeBenchmark,
+  type Benchmark,
+  type BenchmarkReport,
+} from '@/game/benchmark';
+import { createHistory, createRewind, recordHistory, stepRewind, type StateHistory } from '@/game/history';
+import { advanceGhost, canRaceGhost, createGhost, ghostDistanceDelta, type Ghost } from '@/game/ghost';
+import { clearInput, createInputQueue, pushInput, takeStepInput, type InputQueue } from '@/game/input';
+import { levelStars, type Level } from '@/game/level';
+import { findLevel, levelRunConfig } from '@/game/levels';
+import { completeMissions, type MissionLog, type MissionResult } from '@/game/missions';
+import { depositGifts, findSnowballSkin, SNOWBALL_SKINS, TILE_THEMES } from '@/game/shop';
+import {
+  createCursor,
+  createRecorder,
+  finishRecording,
+  nextReplayInput,
+  recordInput,
+  replayRunConfig,
+  type Replay,
+  type ReplayCursor,
+  type ReplayRecorder,
+} from '@/game/replay';
+import { dailySeed, dailySeedKey, parseSeed, randomSeed } from '@/game/random';
+import { createShatter, updateShatter } from '@/game/shatter';
+import { createInitialState, createWorld, step } from '@/game/simulation';
+import { summarizeRun } from '@/game/summary';
+import type {
+  DeathCause,
+  GameMode,
+  RunConfig,
+  SimEvent,
+  SimState,
+} from '@/game/types';
+import { loadAchievements, saveAchievements, type AchievementProgress } from '@/storage/achievements';
+import { loadLevelDraft } from '@/storage/customLevels';
+import { loadMissions, saveMissions } from '@/storage/missions';
+import { loadBestReplay, submitBestReplay } from '@/storage/ghosts';
+import { submitScore, type ScoreSubmission } from '@/storage/leaderboard';
+import { submitLevelResult, type LevelSubmission } from '@/storage/levels';
+import { loadReplay, saveReplay } from '@/storage/replays';
+import { addRunToHistory } from '@/storage/runHistory';
+import { useSettings } from '@/storage/settings';
+import { loadWallet, updateWallet, useWallet } from '@/storage/wallet';
+
+const WORLD = createWorld(WORLD_WIDTH, WORLD_HEIGHT);
+
+type GameState = 'start' | 'playing' | 'paused' | 'dying' | 'gameOver';
+
+// Seconds counted down before a paused run picks up again
+const RESUME_COUNTDOWN = 3;
+
+// A death first shatters the snowball in slow motion under a shaking camera...
+const SHATTER_DURATION = 900;
+const SHATTER_SLOW_MOTION = 0.35;
+const SHAKE_AMPLITUDE = 12;
+// ...then replays the last few seconds, slowing right down for the ticks before the crash and
+// holding on it briefly
+const REPLAY_SLOW_MOTION = 0.25;
+const REPLAY_SLOW_TICKS = 40;
+const REPLAY_HOLD = 500;
+
+// On the start screen; the keys are the ones useGameInput listens for
+const CONTROLS_HINT = [
+  'TAP TO JUMP, HOLD TO JUMP HIGHER',
+  'TAP AGAIN IN THE AIR TO DOUBLE JUMP',
+  ...(Platform.OS === 'web' ? ['OR USE SPACE, UP OR W'] : []),
+].join('\n');
+
+// A run on the editor's draft, from wherever the editor's timeline was
+interface Playtest {
+  level: Level;
+  startX: number;
+}
 
-const TILE_WIDTHS = [120, 180, 250, 400];
-const GAP_SIZES = [100, 150, 200];
+function createRunConfig(mode: GameMode, seedText = ''): RunConfig {
+  if (mode === 'daily') return { mode, seed: dailySeed() };
+  const customSeed = parseSeed(seedText);
+  if (customSeed !== null) return { mode: 'custom', seed: customSeed };
+  return { mode: 'endless', seed: randomSeed() };
+}
 
-const COYOTE_TIME = 8;
-const JUMP_BUFFER_TIME = 6;
-const LANDING_TOLERANCE = 30;
+const SOUND_EFFECTS = {
+  jump: require('../assets/sounds/jump.wav'),
+  gift: require('../assets/sounds/gift.wav'),
+  crash: require('../assets/sounds/crash.wav'),
+};
 
-type GameState = 'start' | 'playing' | 'gameOver';
+type SoundEffect = keyof typeof SOUND_EFFECTS;
 
-interface TileData {
-  id: number;
-  x: number;
-  width: number;
-  type: 'short' | 'medium' | 'long';
+// Read at call time so a change in settings applies to the very next buzz
+function hapticsEnabled(): boolean {
+  return Platform.OS !== 'web' && useSettings.getState().haptics;
 }
 
-// Removed ObstacleData
-interface CollectibleData {
-  id: number;
-  x: number;
-  tileId: number;
-  collected: boolean;
-  // added for 3D rotation effect or just static
-  rotation?: number; 
+const DEATH_MESSAGES: Record<DeathCause, string> = {
+  fell: 'FELL INTO THE DARK',
+  wall: 'CRASHED INTO A LEDGE',
+  iceSpike: 'IMPALED ON AN ICE SPIKE',
+  snowman: 'BOWLED INTO A SNOWMAN',
+  icicle: 'HIT A HANGING ICICLE',
+  log: 'FLATTENED BY A ROLLING LOG',
+};
+
+function describeRun(run: RunConfig, level?: Level): string {
+  if (run.mode === 'daily') return `DAILY ${dailySeedKey()}`;
+  if (level) return level.name.toUpperCase();
+  if (run.levelId !== undefined) return run.levelId;
+  return `SEED ${run.seed}`;
 }
 
-interface ParticleData {
-  id: number;
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  opacity: number;
-  size: number;
-  life: number;
+function starText(stars: number): string {
+  return '★'.repeat(stars) + '☆'.repeat(3 - stars);
 }
 
-// Memoized Components to reduce render cost
-const Tile = React.memo(({ tile, cameraX }: { tile: TileData; cameraX: number }) => {
-  const screenX = tile.x - cameraX;
-  if (screenX < -tile.width || screenX > SCREEN_WIDTH) return null;
-  
-  return (
-    <View
-      style={[
-        styles.tile,
-        {
-          left: screenX + SCREEN_WIDTH / 2 - tile.width / 2,
-          width: tile.width,
-          top: TILE_Y,
-        },
-      ]}
-    >
-      <View style={styles.tileTop} />
-      <View style={styles.tileSnow} />
-    </View>
-  );
-});
-Tile.displayName = 'Tile';
-
-// Removed Tree and Obstacle components
-
-const Collectible = React.memo(({ collectible, cameraX }: { collectible: CollectibleData; cameraX: number }) => {
-  if (collectible.collected) return null;
-  const screenX = collectible.x - cameraX;
-  if (screenX < -100 || screenX > SCREEN_WIDTH) return null;
-
-  // 3D Gift Box Construction
-  return (
-    <View style={[styles.collectible, { left: screenX + SCREEN_WIDTH / 2 }]}>
-      <View style={styles.giftContainer}>
-        {/* Shadow */}
-        <View style={styles.giftShadow} />
-        
-        {/* 3D Box Construction */}
-        <View style={styles.giftBoxSide} />
-        <View style={styles.giftBoxTop} />
-        <View style={styles.giftBoxFront}>
-           <View style={styles.giftRibbonV} />
-           <View style={styles.giftRibbonH} />
-        </View>
-        <View style={styles.giftBoxTopRibbon} />
-      </View>
-    </View>
-  );
-});
-Collectible.displayName = 'Collectible';
+function formatMs(ms: number): string {
+  return `${ms.toFixed(1)}MS`;
+}
 
 export default function GameScreen() {
   const [fontsLoaded] = useFonts({
@@ -126,40 +173,76 @@ export default function GameScreen() {
 
   const [gameState, setGameState] = useState<GameState>('start');
   const [score, setScore] = useState<number>(0);
+  const [run, setRun] = useState<RunConfig>(() => createRunConfig('endless'));
+  const [seedText, setSeedText] = useState('');
+  const [isWatching, setIsWatching] = useState(false);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [deathCause, setDeathCause] = useState<DeathCause | null>(null);
+  const [scoreSubmission, setScoreSubmission] = useState<ScoreSubmission | null>(null);
+  // Set when a level run reaches the finish line
+  const [levelResult, setLevelResult] = useState<LevelSubmission | null>(null);
+  const [playtest, setPlaytest] = useState<Playtest | null>(null);
+  // Seconds left before a paused run resumes, or null while it waits on the pause menu
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const router = useRouter();
+  const {
+    replay: replayParam,
+    level: levelParam,
+    playtest: playtestParam,
+    benchmark: benchmarkParam,
+  } = useLocalSearchParams<{ replay?: string; level?: string; playtest?: string; benchmark?: string }>();
   const soundRef = useRef<Audio.Sound | null>(null);
+  const sfxRef = useRef<Partial<Record<SoundEffect, Audio.Sound>>>({});
+  const musicVolume = useSettings(state => state.musicVolume);
+  const reducedMotion = useSettings(state => state.reducedMotion);
+  // Follows window resizes and rotation; the world itself never changes size
+  const viewport = useViewport(WORLD_WIDTH, WORLD_HEIGHT);
+  const showFps = useSettings(state => state.showFps);
+  const [fps, setFps] = useState(0);
   
-  const stateRef = useRef({
-    snowballY: TILE_Y - SNOWBALL_SIZE,
-    velocity: 0,
-    cameraX: 0,
-    speed: INITIAL_SPEED,
-    isOnGround: true,
-    hasDoubleJump: false,
-    score: 0,
+  // Simulation state lives outside React; the loop steps it and hands each frame to the renderer
+  const [initialSim] = useState(() => createInitialState(WORLD, run.seed));
+  const simRef = useRef<SimState>(initialSim);
+  const rendererRef = useRef<WorldRendererHandle>(null);
+  const popupsRef = useRef<ScorePopupsHandle>(null);
+  const loopRef = useRef({
     lastTime: 0,
     accumulator: 0,
-    frameCounter: 0,
-    coyoteTimer: 0,
-    jumpBufferTimer: 0,
-    lastGroundY: TILE_Y - SNOWBALL_SIZE,
+    // Frames drawn since `fpsSince`, for the FPS counter
+    fpsFrames: 0,
+    fpsSince: 0,
   });
-
-  // React State (for Render)
-  // removed renderTrigger since setScore drives the render
-
-  const [tiles, setTiles] = useState<TileData[]>([]);
-  // Removed obstacles state
-  const [collectibles, setCollectibles] = useState<CollectibleData[]>([]);
-  const [particles, setParticles] = useState<ParticleData[]>([]);
-  const [deathParticles, setDeathParticles] = useState<ParticleData[]>([]);
-  
-  const tileIdCounter = useRef(0);
-  // Removed obstacleIdCounter
-  const collectibleIdCounter = useRef(0);
-  const particleIdCounter = useRef(0);
-  // Removed dodgedObstacles
-  
-  const shatterOpacity = useRef(new Animated.Value(0)).current;
+  // Presses and releases waiting for the fixed step that covers the moment they happened
+  const inputQueueRef = useRef<InputQueue>(createInputQueue());
+  // At most one of these is set while playing: live runs record, replays play back and
+  // play-tests do neither
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const playbackRef = useRef<ReplayCursor | null>(null);
+  const ghostRef = useRef<Ghost | null>(null);
+  // Frame times of a benchmark run in progress; the autopilot plays instead of the player
+  const benchmarkRef = useRef<Benchmark | null>(null);
+  const [benchmarkReport, setBenchmarkReport] = useState<BenchmarkReport | null>(null);
+  // The last few seconds of the run, played back when it ends in a crash
+  const historyRef = useRef<StateHistory | null>(null);
+  // Set once the death sequence reaches its instant replay
+  const [instantReplay, setInstantReplay] = useState(false);
+  // Saved unlocks and lifetime stats, and what the run in progress adds to them. Only runs that
+  // are recorded count: replays, play-tests and benchmarks don't.
+  const achievementsRef = useRef<AchievementProgress | null>(null);
+  const runStatsRef = useRef<RunStats | null>(null);
+  // Unlocks waiting for their toast, the first one showing
+  const [unlockToasts, setUnlockToasts] = useState<Achievement[]>([]);
+  // Missions are scored when a counted run ends; the ref is the saved log and the state shows it
+  const missionsRef = useRef<MissionLog | null>(null);
+  const [missions, setMissions] = useState<MissionLog | null>(null);
+  const [missionResults, setMissionResults] = useState<MissionResult[] | null>(null);
+  // Gifts the last counted run put in the wallet
+  const [giftsBanked, setGiftsBanked] = useState<number | null>(null);
+  const equipped = useWallet(state => state.wallet?.equipped);
+  const skin = findSnowballSkin(equipped?.snowball ?? SNOWBALL_SKINS[0].id);
+  const tileTheme = useTileTheme(equipped?.tiles ?? TILE_THEMES[0].id);
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
 
   // Background Music
   useEffect(() => {
@@ -175,11 +258,16 @@ export default function GameScreen() {
 
         const { sound: loadedSound } = await Audio.Sound.createAsync(
           require('../assets/music.mp3'),
-          { shouldPlay: false, isLooping: true, volume: 0.55 }
+          { shouldPlay: false, isLooping: true, volume: useSettings.getState().musicVolume }
         );
         
         sound = loadedSound;
         soundRef.current = loadedSound;
+
+        for (const effect of Object.keys(SOUND_EFFECTS) as SoundEffect[]) {
+          const { sound: effectSound } = await Audio.Sound.createAsync(SOUND_EFFECTS[effect]);
+          sfxRef.current[effect] = effectSound;
+        }
       } catch (error) {
         console.log('Error loading audio:', error);
       }
@@ -187,83 +275,107 @@ export default function GameScreen() {
 
     setupAudio();
 
+    const effects = sfxRef.current;
     return () => {
       if (sound) {
         sound.unloadAsync();
       }
+      for (const effectSound of Object.values(effects)) effectSound.unloadAsync();
     };
   }, []);
 
+  // Volume changes from the settings screen apply to music that is already playing
+  useEffect(() => {
+    soundRef.current?.setVolumeAsync(musicVolume).catch(error => console.log('Error setting volume:', error));
+  }, [musicVolume]);
+
+  useEffect(() => {
+    loadAchievements()
+      .then(progress => {
+        achievementsRef.current = progress;
+      })
+      .catch(error => console.log('Error loading achievements:', error));
+    loadMissions()
+      .then(log => {
+        missionsRef.current = log;
+        setMissions(log);
+      })
+      .catch(error => console.log('Error loading missions:', error));
+    loadWallet().catch(error => console.log('Error loading wallet:', error));
+  }, []);
+
+  // Unlocks are saved the moment they happen, so they stick even if the run is then quit
+  const checkAchievements = useCallback((stats: RunStats) => {
+    const progress = achievementsRef.current;
+    if (!progress) return;
+    const unlocks = findUnlocks(progress.unlocked, stats, progress.lifetime);
+    if (unlocks.length === 0) return;
+    const date = new Date().toISOString();
+    for (const achievement of unlocks) progress.unlocked[achievement.id] = date;
+    saveAchievements(progress).catch(error => console.log('Error saving achievements:', error));
+    setUnlockToasts(current => [...current, ...unlocks]);
+  }, []);
+
+  const handleToastDone = useCallback(() => {
+    setUnlockToasts(current => current.slice(1));
+  }, []);
+
+  const playSound = useCallback((effect: SoundEffect) => {
+    const volume = useSettings.getState().sfxVolume;
+    const effectSound = sfxRef.current[effect];
+    if (!effectSound || volume === 0) return;
+    effectSound.replayAsync({ volume }).catch(error => console.log('Error playing sound:', error));
+  }, []);
+
   // Initialize Game
-  const initGame = useCallback(() => {
-    tileIdCounter.current = 0;
-    collectibleIdCounter.current = 0;
-    particleIdCounter.current = 0;
-    shatterOpacity.setValue(0);
-
-    stateRef.current = {
-      snowballY: TILE_Y - SNOWBALL_SIZE,
-      velocity: 0,
-      cameraX: 0,
-      speed: INITIAL_SPEED,
-      isOnGround: true,
-      hasDoubleJump: false,
-      score: 0,
+  const initGame = useCallback((config: RunConfig, replay?: Replay, playtest?: Playtest, benchmark = false) => {
+    // Replays re-simulate in the viewport they were recorded in
+    const world = replay ? createWorld(replay.world.width, replay.world.height) : WORLD;
+    const level = playtest?.level ?? (config.levelId !== undefined ? findLevel(config.levelId) : undefined);
+    const sim = createInitialState(world, config.seed, level, playtest?.startX);
+    simRef.current = sim;
+    loopRef.current = {
       lastTime: 0,
       accumulator: 0,
-      frameCounter: 0,
-      coyoteTimer: 0,
-      jumpBufferTimer: 0,
-      lastGroundY: TILE_Y - SNOWBALL_SIZE,
+      fpsFrames: 0,
+      fpsSince: 0,
     };
-
-    // Initial Tiles (Start Platform)
-    const initialTiles: TileData[] = [];
-    // Start with a very long safe platform centered at 0
-    // Center is 0. Width 600.
-    initialTiles.push({
-      id: tileIdCounter.current++,
-      x: 0,
-      width: 600,
-      type: 'long',
-    });
-
-    let currentCenter = 0;
-    let currentWidth = 600;
-
-    // Generate a few more tiles ahead
-    for (let i = 0; i < 5; i++) {
-      const width = TILE_WIDTHS[Math.floor(Math.random() * TILE_WIDTHS.length)];
-      const gap = GAP_SIZES[Math.floor(Math.random() * GAP_SIZES.length)];
-      
-      // Calculate new center:
-      // Prev Center + Prev Half Width + Gap + New Half Width
-      const newCenter = currentCenter + (currentWidth / 2) + gap + (width / 2);
-      
-      initialTiles.push({
-        id: tileIdCounter.current++,
-        x: newCenter,
-        width,
-        type: 'medium',
-      });
-
-      currentCenter = newCenter;
-      currentWidth = width;
+    clearInput(inputQueueRef.current);
+    const recorder = replay || playtest || benchmark ? null : createRecorder(config, world);
+    recorderRef.current = recorder;
+    playbackRef.current = replay ? createCursor(replay) : null;
+    ghostRef.current = null;
+    benchmarkRef.current = benchmark ? createBenchmark() : null;
+    historyRef.current = benchmark ? null : createHistory();
+    runStatsRef.current = recorder ? createRunStats(sim.cameraX, sim.tally) : null;
+
+    // Race the personal best on this course; it may arrive a few ticks late and catch up
+    if (recorder) {
+      loadBestReplay(config.seed, world)
+        .then(best => {
+          if (best && recorderRef.current === recorder && canRaceGhost(best, config.seed, world)) {
+            ghostRef.current = createGhost(best);
+          }
+        })
+        .catch(error => console.log('Error loading ghost:', error));
     }
 
-    setTiles(initialTiles);
-    // Sync Ref immediately so loop has data
-    gameDataRef.current.tiles = initialTiles;
-    gameDataRef.current.collectibles = [];
-    gameDataRef.current.particles = [];
-
-    setCollectibles([]);
-    setDeathParticles([]);
+    rendererRef.current?.draw(sim, null, true);
+    popupsRef.current?.clear();
     setScore(0);
-  }, [shatterOpacity]);
+    setRun(config);
+    setIsWatching(!!replay);
+    setPlaytest(playtest ?? null);
+    setScoreSubmission(null);
+    setLevelResult(null);
+    setCountdown(null);
+    setBenchmarkReport(null);
+    setMissionResults(null);
+    setGiftsBanked(null);
+  }, []);
 
-  const handleStart = useCallback(async () => {
-    initGame();
+  const handleStart = useCallback(async (config: RunConfig, replay?: Replay, playtest?: Playtest, benchmark = false) => {
+    initGame(config, replay, playtest, benchmark);
     setGameState('playing');
     
     // Start background music when game starts
@@ -309,564 +421,831 @@ export default function GameScreen() {
     }
   }, [initGame]);
 
-  const lastTapTimeRef = useRef(0);
-
-  const handleTap = useCallback(() => {
-    if (gameState !== 'playing') {
-      if (gameState === 'start' || gameState === 'gameOver') {
-        handleStart();
+  const handlePress = useCallback((time: number) => {
+    if (gameState === 'start') {
+      handleStart(createRunConfig('endless', seedText));
+      return;
+    }
+    // The pause menu has its own buttons; a stray tap shouldn't queue a jump
+    if (gameState === 'paused') return;
+    // Taps during the crash itself are most likely late jumps, so only the replay can be skipped
+    if (gameState === 'dying') {
+      if (instantReplay) setGameState('gameOver');
+      return;
+    }
+    if (gameState === 'gameOver') {
+      if (benchmarkReport) {
+        handleStart(run, undefined, undefined, true);
+        return;
       }
+      // Daily, custom and level courses retry as they were; endless rolls a fresh seed
+      handleStart(run.mode === 'endless' ? createRunConfig('endless') : run, undefined, playtest ?? undefined);
       return;
     }
 
-    const state = stateRef.current;
-    const now = Date.now();
-    const timeSinceLastTap = now - lastTapTimeRef.current;
-    
-    // First tap or single tap (on ground/coyote)
-    if (state.isOnGround || state.coyoteTimer > 0) {
-      state.velocity = JUMP_FORCE;
-      state.isOnGround = false;
-      state.coyoteTimer = 0;
-      state.hasDoubleJump = true;
-      lastTapTimeRef.current = now;
-      if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    }
-    // Double jump (in air, within 300ms of last tap)
-    else if (!state.isOnGround && state.hasDoubleJump && timeSinceLastTap < 300) {
-      state.velocity = DOUBLE_JUMP_FORCE;
-      state.hasDoubleJump = false;
-      lastTapTimeRef.current = 0; // Reset to prevent triple jump
-      if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    // Replays and benchmarks take no input
+    if (playbackRef.current || benchmarkRef.current) return;
+
+    pushInput(inputQueueRef.current, 'press', time);
+  }, [gameState, handleStart, seedText, run, playtest, benchmarkReport, instantReplay]);
+
+  // Letting go only matters mid-run, where it can cut a jump short
+  const handleRelease = useCallback((time: number) => {
+    if (gameState !== 'playing' || playbackRef.current || benchmarkRef.current) return;
+    pushInput(inputQueueRef.current, 'release', time);
+  }, [gameState]);
+
+  const handleWatchReplay = useCallback((replay: Replay) => {
+    handleStart(replayRunConfig(replay), replay);
+  }, [handleStart]);
+
+  // Watch requests from the replays route arrive as a search param
+  useEffect(() => {
+    if (!replayParam) return;
+    // Clear the param first so returning to this screen doesn't replay again
+    router.setParams({ replay: undefined });
+    loadReplay(replayParam)
+      .then(replay => {
+        if (replay) {
+          setLastReplay(replay);
+          handleWatchReplay(replay);
+        }
+      })
+      .catch(error => console.log('Error loading replay:', error));
+  }, [replayParam, handleWatchReplay, router]);
+
+  // Level picks from the level select arrive the same way
+  useEffect(() => {
+    if (!levelParam) return;
+    router.setParams({ level: undefined });
+    const level = findLevel(levelParam);
+    if (level) handleStart(levelRunConfig(level));
+  }, [levelParam, handleStart, router]);
+
+  // Play-tests from the editor carry the start position; the level is the editor's saved draft
+  useEffect(() => {
+    if (playtestParam === undefined) return;
+    router.setParams({ playtest: undefined });
+    loadLevelDraft()
+      .then(level => {
+        if (level) handleStart(levelRunConfig(level), undefined, { level, startX: Number(playtestParam) || 0 });
+      })
+      .catch(error => console.log('Error loading level draft:', error));
+  }, [playtestParam, handleStart, router]);
+
+  // Benchmarks are started from the settings screen
+  useEffect(() => {
+    if (benchmarkParam === undefined) return;
+    router.setParams({ benchmark: undefined });
+    handleStart({ mode: 'endless', seed: BENCHMARK_SEED }, undefined, undefined, true);
+  }, [benchmarkParam, handleStart, router]);
+
+  const inputHandlers = useGameInput(
+    useMemo(() => ({ onPress: handlePress, onRelease: handleRelease }), [handlePress, handleRelease])
+  );
+
+  const handlePause = useCallback(() => {
+    setGameState(current => (current === 'playing' ? 'paused' : current));
+    setCountdown(null);
+    clearInput(inputQueueRef.current);
+    soundRef.current?.pauseAsync().catch(error => console.log('Error pausing music:', error));
+  }, []);
+
+  const handleResume = useCallback(() => {
+    setCountdown(RESUME_COUNTDOWN);
+  }, []);
+
+  const handleQuit = useCallback(() => {
+    // The run is abandoned, so nothing it recorded is kept
+    recorderRef.current = null;
+    playbackRef.current = null;
+    benchmarkRef.current = null;
+    runStatsRef.current = null;
+    setCountdown(null);
+    setGameState('start');
+  }, []);
+
+  useEffect(() => {
+    if (countdown === null) return;
+    const timer = setTimeout(() => {
+      if (countdown > 1) {
+        setCountdown(countdown - 1);
+        return;
+      }
+      setCountdown(null);
+      // Restart the clock so the time spent paused never reaches the accumulator
+      loopRef.current.lastTime = 0;
+      loopRef.current.accumulator = 0;
+      setGameState('playing');
+      soundRef.current?.playAsync().catch(error => console.log('Error resuming music:', error));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [countdown]);
+
+  // Leaving the app pauses the run. React Native Web reports hidden pages as backgrounded, so
+  // this covers switching tabs too.
+  useEffect(() => {
+    if (gameState !== 'playing' && gameState !== 'paused') return;
+    const subscription = AppState.addEventListener('change', next => {
+      if (next !== 'active') handlePause();
+    });
+    return () => subscription.remove();
+  }, [gameState, handlePause]);
+
+  // Ends the run; `cause` is null when a level was finished rather than lost. Crashes play the
+  // death sequence before the game-over screen, but the run is saved straight away.
+  const handleGameOver = useCallback(async (cause: DeathCause | null) => {
+    rendererRef.current?.draw(simRef.current, null, false);
+    setGameState(cause === null ? 'gameOver' : 'dying');
+    setDeathCause(cause);
+    setScore(Math.floor(simRef.current.score));
+    if (cause !== null) playSound('crash');
+
+    const stats = runStatsRef.current;
+    const progress = achievementsRef.current;
+    runStatsRef.current = null;
+    if (stats && progress) {
+      progress.lifetime = addRunStats(progress.lifetime, stats);
+      saveAchievements(progress).catch(error => console.log('Error saving achievements:', error));
     }
-    // Jump buffer for landing soon
-    else if (!state.isOnGround) {
-      state.jumpBufferTimer = JUMP_BUFFER_TIME;
-      lastTapTimeRef.current = now;
+    if (stats) {
+      // Gifts from the run and from the missions it completed go in the wallet
+      let banked = stats.gifts;
+      if (missionsRef.current) {
+        const { log, results } = completeMissions(missionsRef.current, stats);
+        for (const result of results) if (result.completed) banked += result.mission.reward;
+        missionsRef.current = log;
+        setMissions(log);
+        setMissionResults(results);
+        saveMissions(log).catch(error => console.log('Error saving missions:', error));
+      }
+      if (banked > 0) {
+        updateWallet(wallet => depositGifts(wallet, banked)).catch(error => console.log('Error banking gifts:', error));
+      }
+      setGiftsBanked(banked);
     }
-  }, [gameState, handleStart]);
 
-  const handleTapRef = useRef<() => void>(() => {});
-  useEffect(() => {
-    handleTapRef.current = handleTap;
-  }, [handleTap]);
-
-  // PanResponder for better touch handling (fixes "jump touch" delay)
-  const panResponder = useRef(
-    PanResponder.create({
-      onStartShouldSetPanResponder: () => true,
-      onPanResponderGrant: () => {
-        handleTapRef.current?.();
-      },
-    })
-  ).current;
-
-  const handleGameOver = useCallback(async () => {
-    setGameState('gameOver');
+    const recorder = recorderRef.current;
+    if (recorder) {
+      const sim = simRef.current;
+      const replay = finishRecording(recorder, sim);
+      recorderRef.current = null;
+      setLastReplay(replay);
+      saveReplay(replay).catch(error => console.log('Error saving replay:', error));
+      submitBestReplay(replay).catch(error => console.log('Error saving ghost:', error));
+      addRunToHistory(summarizeRun(sim, recorder.run, cause, replay.recordedAt))
+        .catch(error => console.log('Error saving run history:', error));
+
+      const { mode, levelId } = recorder.run;
+      const level = levelId !== undefined ? findLevel(levelId) : undefined;
+      if (mode !== 'level') {
+        submitScore(mode, {
+          score: Math.floor(sim.score),
+          distance: sim.cameraX,
+          gifts: sim.giftsCollected,
+          date: replay.recordedAt,
+          seed: sim.seed,
+        })
+          .then(setScoreSubmission)
+          .catch(error => console.log('Error saving score:', error));
+      } else if (level && sim.finished) {
+        const score = Math.floor(sim.score);
+        submitLevelResult(level.id, score, levelStars(level, score, true))
+          .then(setLevelResult)
+          .catch(error => console.log('Error saving level result:', error));
+      }
+    }
     
     if (soundRef.current) {
       await soundRef.current.pauseAsync();
     }
-    
-    const shatterParticles: ParticleData[] = [];
-    for (let i = 0; i < 20; i++) {
-      const angle = (Math.PI * 2 * i) / 20;
-      const speed = 2 + Math.random() * 4;
-      shatterParticles.push({
-        id: particleIdCounter.current++,
-        x: SCREEN_WIDTH / 2,
-        y: stateRef.current.snowballY + SNOWBALL_SIZE / 2,
-        vx: Math.cos(angle) * speed,
-        vy: Math.sin(angle) * speed - 2,
-        opacity: 1,
-        size: 8,
-        life: 1.0,
-      });
+
+    if (cause === null) {
+      if (hapticsEnabled()) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      return;
     }
-    setDeathParticles(shatterParticles);
     
-    Animated.timing(shatterOpacity, {
-      toValue: 1,
-      duration: 300,
-      useNativeDriver: true,
-    }).start();
-    
-    if (Platform.OS !== 'web') {
+    if (hapticsEnabled()) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     }
-  }, [shatterOpacity]);
-
-  // Main Game Loop
-  // Removed abandoned useEffect hook
-
-
-  // Re-implementing with full Ref-based state for Game Loop to avoid closure staleness
-  const gameDataRef = useRef({
-    tiles: [] as TileData[],
-    collectibles: [] as CollectibleData[],
-    particles: [] as ParticleData[],
-  });
-
-  // Removed redundant sync effects - initGame handles initial population,
-  // and loop handles updates.
+  }, [playSound]);
+
+  const handleSimEvent = useCallback((event: SimEvent) => {
+    switch (event.type) {
+      case 'jumped':
+        playSound('jump');
+        if (hapticsEnabled()) {
+          Haptics.impactAsync(event.double ? Haptics.ImpactFeedbackStyle.Medium : Haptics.ImpactFeedbackStyle.Light);
+        }
+        break;
+      case 'collected':
+        playSound('gift');
+        if (hapticsEnabled()) {
+          if (event.kind === 'gift') {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+          } else {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          }
+        }
+        break;
+      case 'shieldUsed':
+        if (hapticsEnabled()) Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+        break;
+      case 'powerUpExpired':
+        break;
+      case 'died':
+        handleGameOver(event.cause);
+        break;
+      case 'finished':
+        handleGameOver(null);
+        break;
+      case 'dodged':
+        if (hapticsEnabled()) Haptics.selectionAsync();
+        break;
+      case 'scored':
+        popupsRef.current?.pop(event, simRef.current.cameraX);
+        break;
+      case 'bounced':
+        if (hapticsEnabled()) Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+        break;
+      case 'crumbled':
+        if (hapticsEnabled()) Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Rigid);
+        break;
+      case 'landed':
+      case 'missed':
+      case 'comboBroken':
+        break;
+    }
+  }, [handleGameOver, playSound]);
 
+  const handleBenchmarkDone = useCallback((benchmark: Benchmark) => {
+    const report = summarizeBenchmark(benchmark);
+    benchmarkRef.current = null;
+    setBenchmarkReport(report);
+    setGameState('gameOver');
+    soundRef.current?.pauseAsync().catch(error => console.log('Error pausing music:', error));
+  }, []);
 
+  // Main Game Loop
   useEffect(() => {
     if (gameState !== 'playing') return;
 
     let animationFrameId: number;
-    
-    const updatePhysics = () => {
-      const state = stateRef.current;
-      const gameData = gameDataRef.current;
 
-      state.velocity += GRAVITY;
-      state.velocity = Math.min(state.velocity, TERMINAL_VELOCITY);
-      state.snowballY += state.velocity;
+    const gameLoop = (time: number) => {
+      const frameStart = performance.now();
+      const loop = loopRef.current;
+      const benchmark = benchmarkRef.current;
+      let sim = simRef.current;
       
-      state.speed = Math.min(state.speed + SPEED_INCREMENT, MAX_SPEED);
-      state.cameraX += state.speed;
-      state.score += state.speed / 100;
-
-      if (state.jumpBufferTimer > 0) state.jumpBufferTimer--;
-      if (state.coyoteTimer > 0) state.coyoteTimer--;
-
-      const snowballBottom = state.snowballY + SNOWBALL_SIZE;
-      const snowballWorldX = state.cameraX;
-      const snowballLeft = snowballWorldX - SNOWBALL_SIZE / 2;
-      const snowballRight = snowballWorldX + SNOWBALL_SIZE / 2;
-
-      let onTile = false;
-      let shouldLand = false;
-
-      for (const tile of gameData.tiles) {
-        const halfWidth = tile.width / 2;
-        const tileLeft = tile.x - halfWidth;
-        const tileRight = tile.x + halfWidth;
-
-        const horizontalOverlap = snowballRight > tileLeft && snowballLeft < tileRight;
-
-        if (horizontalOverlap) {
-          const distanceToSurface = snowballBottom - TILE_Y;
-          
-          if (distanceToSurface >= 0 && distanceToSurface <= LANDING_TOLERANCE && state.velocity >= 0) {
-            state.snowballY = TILE_Y - SNOWBALL_SIZE;
-            state.velocity = 0;
-            state.isOnGround = true;
-            state.hasDoubleJump = false;
-            state.coyoteTimer = COYOTE_TIME;
-            state.lastGroundY = state.snowballY;
-            shouldLand = true;
-            onTile = true;
-
-            if (state.jumpBufferTimer > 0) {
-              state.velocity = JUMP_FORCE;
-              state.isOnGround = false;
-              state.hasDoubleJump = true;
-              state.jumpBufferTimer = 0;
-              if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-            }
-            break;
-          } else if (Math.abs(state.snowballY - state.lastGroundY) < 5) {
-            onTile = true;
-          }
-        }
+      if (loop.lastTime === 0) {
+        loop.lastTime = time;
+        loop.fpsFrames = 0;
+        loop.fpsSince = time;
       }
+      
+      const frameTime = time - loop.lastTime;
+      const deltaTime = Math.min(frameTime, MAX_FRAME_TIME);
+      loop.lastTime = time;
+      loop.accumulator += deltaTime;
+
+      // Fixed Time Step. Each step covers the TIME_STEP of real time ending at `stepEnd` and takes
+      // the input that happened within it.
+      let stepEnd = time - loop.accumulator;
+      while (loop.accumulator >= TIME_STEP && !sim.isDead && !sim.finished) {
+        stepEnd += TIME_STEP;
+        const playback = playbackRef.current;
+        const input = playback
+          ? nextReplayInput(playback, sim.tick)
+          : benchmark
+            ? autopilotInput(sim)
+            : takeStepInput(inputQueueRef.current, stepEnd);
+        if (recorderRef.current) recordInput(recorderRef.current, sim.tick, input);
+        if (historyRef.current) recordHistory(historyRef.current, sim, input);
+
+        const events = step(sim, input);
+        const stats = runStatsRef.current;
+        if (stats) {
+          countStep(stats, sim, events);
+          checkAchievements(stats);
+        }
 
-      if (!shouldLand && state.isOnGround && !onTile) {
-        state.isOnGround = false;
-        state.coyoteTimer = COYOTE_TIME;
+        for (const event of events) {
+          // The autopilot crashing doesn't end a benchmark; it starts over on the next course
+          if (benchmark && event.type === 'died') continue;
+          handleSimEvent(event);
+        }
+        loop.accumulator -= TIME_STEP;
       }
 
-      if (state.snowballY > SCREEN_HEIGHT + 100) {
-        handleGameOver();
-        return;
+      if (benchmark && sim.isDead) {
+        benchmark.restarts++;
+        sim = createInitialState(WORLD, BENCHMARK_SEED + benchmark.restarts);
+        simRef.current = sim;
       }
 
-      // 3. Spawning Logic
-      const activeTiles = gameData.tiles.filter(t => t.x + t.width / 2 > state.cameraX - SCREEN_WIDTH);
-      
-      const lastTile = activeTiles[activeTiles.length - 1];
-      const lastTileRight = lastTile ? lastTile.x + lastTile.width / 2 : 0;
-      if (lastTile && lastTileRight < state.cameraX + SPAWN_AHEAD_DISTANCE) {
-         const width = TILE_WIDTHS[Math.floor(Math.random() * TILE_WIDTHS.length)];
-         const gap = GAP_SIZES[Math.floor(Math.random() * GAP_SIZES.length)];
-         const newCenter = lastTile.x + (lastTile.width / 2) + gap + (width / 2);
-         
-         const newTile: TileData = {
-           id: tileIdCounter.current++,
-           x: newCenter,
-           width,
-           type: 'medium',
-         };
-         activeTiles.push(newTile);
-
-         if (Math.random() < 0.3) {
-           gameData.collectibles.push({
-             id: collectibleIdCounter.current++,
-             x: newCenter,
-             tileId: newTile.id,
-             collected: false,
-           });
-         }
-      }
+      if (sim.isDead || sim.finished) return;
 
-      // 4. Update Entities (Collectibles)
-      gameData.collectibles = gameData.collectibles.filter(c => c.x > state.cameraX - SCREEN_WIDTH);
-      for (const col of gameData.collectibles) {
-        if (col.collected) continue;
-        const dx = Math.abs(col.x - state.cameraX);
-        if (dx < 40 && Math.abs(state.snowballY - (TILE_Y - 70)) < 50) {
-           col.collected = true;
-           state.score += 10;
-           if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-        }
+      if (ghostRef.current) advanceGhost(ghostRef.current, sim.tick);
+
+      loop.fpsFrames++;
+      if (time - loop.fpsSince >= 500) {
+        if (useSettings.getState().showFps) setFps(Math.round((loop.fpsFrames * 1000) / (time - loop.fpsSince)));
+        loop.fpsFrames = 0;
+        loop.fpsSince = time;
       }
 
-      // 5. Particles
-      if (gameData.particles.length < 50 && Math.random() < 0.2) {
-           gameData.particles.push({
-             id: particleIdCounter.current++,
-             x: Math.random() * SCREEN_WIDTH,
-             y: -20,
-             vx: (Math.random() - 0.5) * 2,
-             vy: 1 + Math.random() * 3,
-             opacity: 0.3 + Math.random() * 0.7,
-             size: 2 + Math.random() * 4,
-             life: 1,
-           });
+      // The world is drawn without React; only the HUD re-renders, and only when the score moves
+      const ghost = ghostRef.current;
+      rendererRef.current?.draw(sim, ghost && !ghost.sim.isDead ? ghost.sim : null, true);
+      setScore(Math.floor(sim.score));
+
+      if (benchmark && frameTime > 0) {
+        recordFrame(benchmark, frameTime, performance.now() - frameStart);
+        if (benchmark.elapsed >= BENCHMARK_DURATION) {
+          handleBenchmarkDone(benchmark);
+          return;
+        }
       }
       
-      gameData.particles = gameData.particles.map(p => ({
-        ...p,
-        x: p.x + p.vx,
-        y: p.y + p.vy,
-      })).filter(p => p.y < SCREEN_HEIGHT);
-
-      gameData.tiles = activeTiles;
+      animationFrameId = requestAnimationFrame(gameLoop);
     };
 
-    const gameLoop = (time: number) => {
-      const state = stateRef.current;
-      
-      if (state.lastTime === 0) {
-        state.lastTime = time;
+    animationFrameId = requestAnimationFrame(gameLoop);
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [gameState, handleSimEvent, handleBenchmarkDone, checkAchievements]);
+
+  // The death sequence. Runs until the replay is over or skipped; leaving it, either way, puts the
+  // crashed run back on screen for the game-over overlay.
+  useEffect(() => {
+    if (gameState !== 'dying') return;
+
+    const renderer = rendererRef.current;
+    const sim = simRef.current;
+    const pieces = createShatter(sim);
+    const rewind = historyRef.current && createRewind(historyRef.current, sim.tick);
+    const shake = !useSettings.getState().reducedMotion;
+    let animationFrameId: number;
+    let lastTime = 0;
+    let elapsed = 0;
+    let accumulator = 0;
+    let replaying = false;
+    let replayEndedAt: number | null = null;
+
+    const frame = (time: number) => {
+      const deltaTime = lastTime === 0 ? 0 : Math.min(time - lastTime, MAX_FRAME_TIME);
+      lastTime = time;
+      elapsed += deltaTime;
+
+      if (elapsed < SHATTER_DURATION) {
+        updateShatter(pieces, (deltaTime / TIME_STEP) * SHATTER_SLOW_MOTION);
+        renderer?.drawShatter(pieces);
+        const amplitude = shake ? SHAKE_AMPLITUDE * (1 - elapsed / SHATTER_DURATION) : 0;
+        renderer?.shake((Math.random() * 2 - 1) * amplitude, (Math.random() * 2 - 1) * amplitude);
+        animationFrameId = requestAnimationFrame(frame);
+        return;
       }
-      
-      const deltaTime = time - state.lastTime;
-      state.lastTime = time;
-      state.accumulator += deltaTime;
-
-      // Fixed Time Step
-      while (state.accumulator >= TIME_STEP) {
-        updatePhysics();
-        state.accumulator -= TIME_STEP;
+
+      if (!rewind) {
+        setGameState('gameOver');
+        return;
+      }
+      if (!replaying) {
+        replaying = true;
+        renderer?.drawShatter([]);
+        renderer?.shake(0, 0);
+        setInstantReplay(true);
       }
 
-      // Render (throttle React state updates a bit for smoother perf)
-      const gameData = gameDataRef.current;
-      state.frameCounter = (state.frameCounter ?? 0) + 1;
-      if (state.frameCounter % 2 === 0) {
-        setTiles([...gameData.tiles]);
-        setCollectibles([...gameData.collectibles]);
-        setParticles([...gameData.particles]);
-        setScore(Math.floor(state.score));
+      // Re-simulated in fixed steps like the run itself; its events have already been heard
+      const slow = rewind.endTick - rewind.sim.tick <= REPLAY_SLOW_TICKS;
+      accumulator += slow ? deltaTime * REPLAY_SLOW_MOTION : deltaTime;
+      while (replayEndedAt === null && accumulator >= TIME_STEP) {
+        accumulator -= TIME_STEP;
+        if (!stepRewind(rewind)) replayEndedAt = elapsed;
       }
-      
-      if (gameState === 'playing') {
-        animationFrameId = requestAnimationFrame(gameLoop);
+      renderer?.draw(rewind.sim, null, true);
+
+      if (replayEndedAt !== null && elapsed - replayEndedAt >= REPLAY_HOLD) {
+        setGameState('gameOver');
+        return;
       }
+      animationFrameId = requestAnimationFrame(frame);
     };
 
-    animationFrameId = requestAnimationFrame(gameLoop);
-    return () => cancelAnimationFrame(animationFrameId);
-  }, [gameState, handleGameOver]);
+    animationFrameId = requestAnimationFrame(frame);
+    return () => {
+      cancelAnimationFrame(animationFrameId);
+      setInstantReplay(false);
+      renderer?.drawShatter([]);
+      renderer?.shake(0, 0);
+      renderer?.draw(simRef.current, null, false);
+    };
+  }, [gameState]);
 
   // Render Helpers
-  const cameraX = stateRef.current.cameraX;
+  const cameraX = simRef.current.cameraX;
+  const ghost = ghostRef.current;
+  const ghostDeltaMeters = ghost ? Math.round(ghostDistanceDelta(ghost, cameraX) / PIXELS_PER_METER) : 0;
+  const finishX = simRef.current.finishX;
+  const finished = simRef.current.finished;
+  const runLevel = playtest?.level ?? (run.levelId !== undefined ? findLevel(run.levelId) : undefined);
+
+  // The renderer mounts once the fonts are in; show it the course the start screen sits on
+  useEffect(() => {
+    if (fontsLoaded) rendererRef.current?.draw(simRef.current, null, true);
+  }, [fontsLoaded]);
 
   if (!fontsLoaded) return null;
 
   return (
-    <View testID="game-root" style={styles.container} {...panResponder.panHandlers}>
+    <View testID="game-root" style={styles.container} {...inputHandlers}>
       <StatusBar hidden />
       
-      {/* Background with Gradient via Views */}
-      <View style={styles.sky}>
-        <View style={styles.skyGradient1} />
-        <View style={styles.skyGradient2} />
-      </View>
-
-      {/* Stars / Distant Snow */}
-      {particles.map(p => (
-         <View key={p.id} style={[styles.snowflake, { 
-           left: p.x, 
-           top: p.y, 
-           width: p.size, 
-           height: p.size, 
-           opacity: p.opacity 
-         }]} />
-      ))}
+      {/* Game World, in world units scaled to fit the screen */}
+      <WorldView viewport={viewport}>
+        <WorldRenderer ref={rendererRef} reducedMotion={reducedMotion} skin={skin} tileTheme={tileTheme} />
+        <ScorePopups ref={popupsRef} />
+      </WorldView>
+
+      {unlockToasts.length > 0 && (
+        <AchievementToast key={unlockToasts[0].id} achievement={unlockToasts[0]} onDone={handleToastDone} />
+      )}
+
+      {gameState === 'dying' && instantReplay && (
+        <View testID="instant-replay" style={styles.instantReplay} pointerEvents="none">
+          <Text style={styles.instantReplayTitle}>INSTANT REPLAY</Text>
+          {deathCause && <Text style={styles.deathCauseText}>{DEATH_MESSAGES[deathCause]}</Text>}
+          <Text style={styles.seedText}>TAP TO SKIP</Text>
+        </View>
+      )}
 
       {gameState === 'start' && (
         <View style={styles.centerContainer}>
           <Text style={styles.title}>SNOWBALL{'\n'}NIGHT RUN</Text>
-          <Text style={styles.subtitle}>TAP TO JUMP{'\n'}DOUBLE TAP TO DOUBLE JUMP</Text>
+          <Text style={styles.subtitle}>{CONTROLS_HINT}</Text>
+          <Pressable
+            testID="daily-run-button"
+            style={styles.menuButton}
+            onPress={() => handleStart(createRunConfig('daily'))}
+          >
+            <Text style={styles.menuButtonText}>DAILY RUN</Text>
+          </Pressable>
+          <TextInput
+            testID="seed-input"
+            style={styles.seedInput}
+            value={seedText}
+            onChangeText={setSeedText}
+            placeholder="CUSTOM SEED"
+            placeholderTextColor={theme.colors.placeholder}
+            autoCapitalize="none"
+            autoCorrect={false}
+            onSubmitEditing={() => handleStart(createRunConfig('endless', seedText))}
+          />
+          <View style={styles.menuRow}>
+            <Pressable testID="leaderboard-button" style={styles.menuLink} onPress={() => router.push('/leaderboard')}>
+              <Text style={styles.menuLinkText}>SCORES</Text>
+            </Pressable>
+            <Pressable testID="replays-button" style={styles.menuLink} onPress={() => router.push('/replays')}>
+              <Text style={styles.menuLinkText}>REPLAYS</Text>
+            </Pressable>
+            <Pressable testID="levels-button" style={styles.menuLink} onPress={() => router.push('/levels')}>
+              <Text style={styles.menuLinkText}>LEVELS</Text>
+            </Pressable>
+            <Pressable testID="shop-button" style={styles.menuLink} onPress={() => router.push('/shop')}>
+              <Text style={styles.menuLinkText}>SHOP</Text>
+            </Pressable>
+            <Pressable testID="achievements-button" style={styles.menuLink} onPress={() => router.push('/achievements')}>
+              <Text style={styles.menuLinkText}>AWARDS</Text>
+            </Pressable>
+            <Pressable testID="history-button" style={styles.menuLink} onPress={() => router.push('/history')}>
+              <Text style={styles.menuLinkText}>HISTORY</Text>
+            </Pressable>
+            <Pressable testID="settings-button" style={styles.menuLink} onPress={() => router.push('/settings')}>
+              <Text style={styles.menuLinkText}>SETTINGS</Text>
+            </Pressable>
+          </View>
+          {missions && <MissionList missions={missions.active} />}
+        </View>
+      )}
+
+      {gameState === 'gameOver' && benchmarkReport && (
+        <View testID="benchmark-report" style={styles.centerContainer}>
+          <Text style={[styles.gameOverTitle, styles.finishedTitle]}>BENCHMARK</Text>
+          <Text style={styles.scoreText}>
+            {Math.round(1000 / benchmarkReport.averageFrame)} FPS
+          </Text>
+          <Text style={styles.seedText}>{benchmarkReport.frames} FRAMES · {benchmarkReport.slowFrames} SLOW</Text>
+          <Text style={styles.seedText}>
+            FRAME {formatMs(benchmarkReport.averageFrame)} AVG · {formatMs(benchmarkReport.p95Frame)} P95 · {formatMs(benchmarkReport.worstFrame)} WORST
+          </Text>
+          <Text style={styles.seedText}>
+            WORK {formatMs(benchmarkReport.averageWork)} AVG · {formatMs(benchmarkReport.p95Work)} P95
+          </Text>
+          <Text style={styles.seedText}>AUTOPILOT RESTARTS: {benchmarkReport.restarts}</Text>
+          <View style={styles.menuRow}>
+            <Pressable style={styles.menuLink} onPress={() => router.push('/settings')}>
+              <Text style={styles.menuLinkText}>SETTINGS</Text>
+            </Pressable>
+          </View>
+          <Text style={styles.retryText}>TAP TO RUN AGAIN</Text>
         </View>
       )}
 
-      {gameState === 'gameOver' && (
+      {gameState === 'gameOver' && !benchmarkReport && (
         <View style={styles.centerContainer}>
-          <Text style={styles.gameOverTitle}>GAME OVER</Text>
+          <Text style={[styles.gameOverTitle, finished && styles.finishedTitle]}>
+            {finished ? 'COURSE COMPLETE' : 'GAME OVER'}
+          </Text>
+          {deathCause && <Text style={styles.deathCauseText}>{DEATH_MESSAGES[deathCause]}</Text>}
           <Text style={styles.scoreText}>SCORE: {score}</Text>
+          <ScoreBreakdown sources={simRef.current.scoreSources} combo={simRef.current.combo} />
+          {runLevel && finished && (
+            <Text style={styles.starsText}>{starText(levelStars(runLevel, score, finished))}</Text>
+          )}
+          {(scoreSubmission?.isNewBest || levelResult?.isNewBest) && <Text style={styles.newBestText}>NEW BEST!</Text>}
+          {giftsBanked !== null && giftsBanked > 0 && <Text style={styles.seedText}>🎁 +{giftsBanked} BANKED</Text>}
+          {scoreSubmission?.rank && !scoreSubmission.isNewBest && (
+            <Text style={styles.rankText}>#{scoreSubmission.rank} ON THE LEADERBOARD</Text>
+          )}
+          <Text style={styles.seedText}>{describeRun(run, runLevel)}</Text>
+          <RunSummaryCard summary={summarizeRun(simRef.current, run, deathCause, '')} />
+          {missionResults && <MissionList missions={missionResults.map(result => result.mission)} results={missionResults} />}
+          <View style={styles.menuRow}>
+            {playtest ? (
+              <Pressable
+                testID="back-to-editor-button"
+                style={styles.menuLink}
+                onPress={() => router.navigate({ pathname: '/editor', params: { from: String(playtest.startX) } })}
+              >
+                <Text style={styles.menuLinkText}>BACK TO EDITOR</Text>
+              </Pressable>
+            ) : (
+              <>
+                {lastReplay && (
+                  <Pressable testID="watch-replay-button" style={styles.menuLink} onPress={() => handleWatchReplay(lastReplay)}>
+                    <Text style={styles.menuLinkText}>WATCH REPLAY</Text>
+                  </Pressable>
+                )}
+                <Pressable style={styles.menuLink} onPress={() => router.push('/replays')}>
+                  <Text style={styles.menuLinkText}>REPLAYS</Text>
+                </Pressable>
+                {runLevel ? (
+                  <Pressable style={styles.menuLink} onPress={() => router.push('/levels')}>
+                    <Text style={styles.menuLinkText}>LEVELS</Text>
+                  </Pressable>
+                ) : (
+                  <Pressable style={styles.menuLink} onPress={() => router.push('/leaderboard')}>
+                    <Text style={styles.menuLinkText}>SCORES</Text>
+                  </Pressable>
+                )}
+              </>
+            )}
+          </View>
           <Text style={styles.retryText}>TAP TO RETRY</Text>
         </View>
       )}
 
+      {gameState === 'paused' && (
+        <View style={styles.centerContainer}>
+          {countdown !== null ? (
+            <Text testID="resume-countdown" style={styles.countdownText}>{countdown}</Text>
+          ) : (
+            <>
+              <Text style={styles.pausedTitle}>PAUSED</Text>
+              <Pressable testID="resume-button" style={styles.menuButton} onPress={handleResume}>
+                <Text style={styles.menuButtonText}>RESUME</Text>
+              </Pressable>
+              <Pressable testID="quit-button" style={styles.menuLink} onPress={handleQuit}>
+                <Text style={styles.menuLinkText}>QUIT</Text>
+              </Pressable>
+            </>
+          )}
+        </View>
+      )}
+
+      {showFps && (gameState === 'playing' || gameState === 'paused') && (
+        <Text testID="fps-counter" style={styles.fpsText}>{fps} FPS</Text>
+      )}
+
       {gameState === 'playing' && (
+        <Pressable testID="pause-button" style={styles.pauseButton} onPress={handlePause} hitSlop={12}>
+          <View style={styles.pauseBar} />
+          <View style={styles.pauseBar} />
+        </Pressable>
+      )}
+
+      {(gameState === 'playing' || gameState === 'paused') && <PowerUpHud timers={simRef.current.powerUps} />}
+
+      {(gameState === 'playing' || gameState === 'paused') && (
         <View style={styles.scoreContainer}>
-          <Text style={styles.gameScore}>{score}</Text>
+          <View style={styles.scoreRow}>
+            <Text style={styles.gameScore}>{score}</Text>
+            {ghost && (
+              <Text style={[styles.ghostDelta, ghostDeltaMeters >= 0 ? styles.ghostAhead : styles.ghostBehind]}>
+                GHOST {ghostDeltaMeters >= 0 ? '+' : '-'}{Math.abs(ghostDeltaMeters)}M
+              </Text>
+            )}
+          </View>
+          <ComboMeter combo={simRef.current.combo} />
+          <Text style={styles.seedText}>
+            {isWatching ? 'REPLAY · ' : playtest ? 'PLAY-TEST · ' : benchmarkRef.current ? 'BENCHMARK · ' : ''}
+            {describeRun(run, runLevel)}
+            {finishX !== null && ` · ${Math.min(Math.floor((cameraX / finishX) * 100), 100)}%`}
+          </Text>
         </View>
       )}
-
-      {/* Game World */}
-      <View style={styles.worldContainer}>
-        {tiles.map(tile => <Tile key={tile.id} tile={tile} cameraX={cameraX} />)}
-        {collectibles.map(col => <Collectible key={col.id} collectible={col} cameraX={cameraX} />)}
-        
-        {/* Snowball */}
-        {gameState !== 'gameOver' && (
-          <View style={[styles.snowball, {
-            top: stateRef.current.snowballY,
-            left: SCREEN_WIDTH / 2 - SNOWBALL_SIZE / 2,
-            transform: [{ rotate: `${(cameraX * 2) % 360}deg` }] // Rotate rolling effect
-          }]} />
-        )}
-
-        {/* Death Particles */}
-        {deathParticles.map(p => (
-          <Animated.View key={p.id} style={[styles.deathParticle, {
-            left: p.x,
-            top: p.y,
-            opacity: shatterOpacity.interpolate({ inputRange: [0,1], outputRange: [0, 1] })
-          }]} />
-        ))}
-      </View>
     </View>
   );
 }
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: '#050510',
-    overflow: 'hidden',
-  },
-  sky: {
-    ...StyleSheet.absoluteFillObject,
-  },
-  skyGradient1: {
-    position: 'absolute',
-    top: 0,
-    left: 0,
-    right: 0,
-    height: SCREEN_HEIGHT / 2,
-    backgroundColor: '#0a0a20',
-    opacity: 0.5,
-  },
-  skyGradient2: {
-    position: 'absolute',
-    bottom: 0,
-    left: 0,
-    right: 0,
-    height: SCREEN_HEIGHT / 2,
-    backgroundColor: '#151530',
-    opacity: 0.3,
-  },
-  centerContainer: {
-    ...StyleSheet.absoluteFillObject,
-    justifyContent: 'center',
-    alignItems: 'center',
-    zIndex: 100,
-    backgroundColor: 'rgba(0,0,0,0.4)',
-  },
-  worldContainer: {
-    ...StyleSheet.absoluteFillObject,
-  },
-  title: {
-    fontFamily: 'Minecraft',
-    fontSize: 60,
-    color: '#fff',
-    textAlign: 'center',
-    textShadowColor: '#4fc3f7',
-    textShadowRadius: 10,
-    lineHeight: 60,
-  },
-  subtitle: {
-    fontFamily: 'Minecraft',
-    fontSize: 24,
-    color: '#81d4fa',
-    marginTop: 20,
-    letterSpacing: 2,
-  },
-  gameOverTitle: {
-    fontFamily: 'Minecraft',
-    fontSize: 60,
-    color: '#ff5252',
-    textAlign: 'center',
-  },
-  scoreText: {
-    fontFamily: 'Minecraft',
-    fontSize: 32,
-    color: '#fff',
-    marginTop: 10,
-  },
-  retryText: {
-    fontFamily: 'Minecraft',
-    fontSize: 20,
-    color: '#aaa',
-    marginTop: 20,
-  },
-  scoreContainer: {
-    position: 'absolute',
-    top: 50,
-    width: '100%',
-    alignItems: 'center',
-    zIndex: 50,
-  },
-  gameScore: {
-    fontFamily: 'Minecraft',
-    fontSize: 48,
-    color: '#fff',
-    textShadowColor: 'black',
-    textShadowRadius: 2,
-    textShadowOffset: { width: 2, height: 2 },
-  },
-  tile: {
-    position: 'absolute',
-    height: TILE_HEIGHT + 200, // Extend down
-    backgroundColor: '#1a237e', // Dark blue base
-  },
-  tileTop: {
-    height: 12,
-    backgroundColor: '#e3f2fd', // Snow layer
-    width: '100%',
-  },
-  tileSnow: {
-    position: 'absolute',
-    top: 12,
-    width: '100%',
-    height: 10,
-    backgroundColor: '#90caf9',
-    opacity: 0.5,
-  },
-  snowball: {
-    position: 'absolute',
-    width: SNOWBALL_SIZE,
-    height: SNOWBALL_SIZE,
-    borderRadius: SNOWBALL_SIZE / 2,
-    backgroundColor: '#fff',
-    borderWidth: 2,
-    borderColor: '#e1f5fe',
-    shadowColor: '#fff',
-    shadowOpacity: 0.5,
-    shadowRadius: 10,
-    elevation: 5,
-  },
-  collectible: {
-    position: 'absolute',
-    top: TILE_Y - 70, // Slightly higher to sit on top of tile
-    width: 40,
-    height: 40,
-    justifyContent: 'center',
-    alignItems: 'center',
-    zIndex: 20,
-  },
-  giftContainer: {
-    width: 32,
-    height: 32,
-    position: 'relative',
-  },
-  giftShadow: {
-    position: 'absolute',
-    bottom: -5,
-    left: 2,
-    width: 28,
-    height: 8,
-    backgroundColor: 'rgba(0,0,0,0.3)',
-    borderRadius: 10,
-  },
-  giftBoxFront: {
-    position: 'absolute',
-    bottom: 0,
-    left: 0,
-    width: 32,
-    height: 32,
-    backgroundColor: '#d32f2f', // Red
-    borderWidth: 1,
-    borderColor: '#b71c1c',
-    zIndex: 2,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  giftBoxTop: {
-    position: 'absolute',
-    top: -10, // Shift up
-    left: 5,  // Shift right
-    width: 32,
-    height: 10,
-    backgroundColor: '#ff5252', // Lighter red for top
-    transform: [{ skewX: '-45deg' }],
-    borderWidth: 1,
-    borderColor: '#d32f2f',
-    zIndex: 1,
-  },
-  giftBoxSide: {
-    position: 'absolute',
-    top: -5,
-    right: -5,
-    width: 10,
-    height: 32,
-    backgroundColor: '#b71c1c', // Darker red for side
-    transform: [{ skewY: '-45deg' }],
-    borderWidth: 1,
-    borderColor: '#7f0000',
-    zIndex: 1,
-  },
-  giftRibbonV: {
-    position: 'absolute',
-    left: 12, // Center
-    width: 8,
-    height: '100%',
-    backgroundColor: '#fff',
-  },
-  giftRibbonH: {
-    position: 'absolute',
-    top: 12, // Center
-    width: '100%',
-    height: 8,
-    backgroundColor: '#fff',
-  },
-  giftBoxTopRibbon: {
-     position: 'absolute',
-     top: -10,
-     left: 17, // aligned with skew
-     width: 8,
-     height: 10,
-     backgroundColor: '#eee',
-     transform: [{ skewX: '-45deg' }],
-     zIndex: 3,
-  },
-  snowflake: {
-    position: 'absolute',
-    backgroundColor: '#fff',
-    borderRadius: 99,
-  },
-  deathParticle: {
-    position: 'absolute',
-    width: 8,
-    height: 8,
-    backgroundColor: '#fff',
-    borderRadius: 2,
-  },
-});
+// Styles for the theme in use; GameScreen builds them through useThemedStyles
+function createStyles({ colors, typography }: Theme) {
+  const font = (size: number, letterSpacing = 0) => fontStyle(typography, size, letterSpacing);
+
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.letterbox, // Letterbox bars around the world
+      overflow: 'hidden',
+    },
+    centerContainer: {
+      ...StyleSheet.absoluteFillObject,
+      justifyContent: 'center',
+      alignItems: 'center',
+      zIndex: 100,
+      backgroundColor: colors.overlay,
+    },
+    title: {
+      ...font(60),
+      color: colors.text,
+      textAlign: 'center',
+      textShadowColor: colors.accent,
+      textShadowRadius: 10,
+      lineHeight: 60 * typography.scale,
+    },
+    subtitle: {
+      ...font(20, 2),
+      color: colors.accentSoft,
+      textAlign: 'center',
+      marginTop: 20,
+    },
+    gameOverTitle: {
+      ...font(60),
+      color: colors.danger,
+      textAlign: 'center',
+    },
+    deathCauseText: {
+      ...font(22, 1),
+      color: colors.dangerSoft,
+    },
+    scoreText: {
+      ...font(32),
+      color: colors.text,
+      marginTop: 10,
+    },
+    finishedTitle: {
+      color: colors.accentSoft,
+    },
+    starsText: {
+      ...font(40),
+      color: colors.gold,
+      marginBottom: 8,
+    },
+    newBestText: {
+      ...font(28, 2),
+      color: colors.highlight,
+      marginTop: 6,
+    },
+    rankText: {
+      ...font(20),
+      color: colors.highlight,
+      marginTop: 6,
+    },
+    pausedTitle: {
+      ...font(60),
+      color: colors.accent,
+      textAlign: 'center',
+    },
+    countdownText: {
+      ...font(96),
+      color: colors.text,
+      textShadowColor: colors.accent,
+      textShadowRadius: 10,
+    },
+    fpsText: {
+      position: 'absolute',
+      top: 50,
+      left: 20,
+      ...font(18),
+      color: colors.success,
+      zIndex: 60,
+    },
+    pauseButton: {
+      position: 'absolute',
+      top: 50,
+      right: 20,
+      flexDirection: 'row',
+      gap: 6,
+      padding: 8,
+      zIndex: 60,
+    },
+    pauseBar: {
+      width: 6,
+      height: 22,
+      backgroundColor: colors.accentSoft,
+    },
+    retryText: {
+      ...font(20),
+      color: colors.textMuted,
+      marginTop: 20,
+    },
+    menuButton: {
+      marginTop: 30,
+      paddingVertical: 10,
+      paddingHorizontal: 24,
+      borderWidth: 2,
+      borderColor: colors.accent,
+      backgroundColor: colors.accentFaint,
+    },
+    menuButtonText: {
+      ...font(28, 2),
+      color: colors.text,
+    },
+    seedInput: {
+      marginTop: 16,
+      width: 220,
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderWidth: 1,
+      borderColor: colors.inputBorder,
+      ...font(22),
+      color: colors.text,
+      textAlign: 'center',
+    },
+    menuRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      justifyContent: 'center',
+      gap: 12,
+      marginTop: 20,
+    },
+    menuLink: {
+      marginTop: 16,
+      paddingVertical: 6,
+      paddingHorizontal: 14,
+      borderWidth: 1,
+      borderColor: colors.accent,
+    },
+    menuLinkText: {
+      ...font(20, 1),
+      color: colors.accentSoft,
+    },
+    seedText: {
+      ...font(18, 1),
+      color: colors.accentSoft,
+      marginTop: 6,
+    },
+    instantReplay: {
+      position: 'absolute',
+      top: 50,
+      width: '100%',
+      alignItems: 'center',
+      zIndex: 50,
+    },
+    instantReplayTitle: {
+      ...font(36, 2),
+      color: colors.accent,
+    },
+    scoreContainer: {
+      position: 'absolute',
+      top: 50,
+      width: '100%',
+      alignItems: 'center',
+      zIndex: 50,
+    },
+    scoreRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 16,
+    },
+    ghostDelta: {
+      ...font(22, 1),
+    },
+    ghostAhead: {
+      color: colors.success,
+    },
+    ghostBehind: {
+      color: colors.dangerSoft,
+    },
+    gameScore: {
+      ...font(48),
+      color: colors.text,
+      textShadowColor: colors.textShadow,
+      textShadowRadius: 2,
+      textShadowOffset: { width: 2, height: 2 },
+    },
+  });
+}
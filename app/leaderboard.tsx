@@ -0,0 +1,186 @@
+import React, { useCallback, useState } from 'react';
+import { FlatList, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+
+import { PIXELS_PER_METER } from '@/game/constants';
+import {
+  clearLeaderboard,
+  loadLeaderboard,
+  type Leaderboard,
+  type LeaderboardEntry,
+  type ScoredMode,
+} from '@/storage/leaderboard';
+
+const MODES: { mode: ScoredMode; label: string }[] = [
+  { mode: 'endless', label: 'ENDLESS' },
+  { mode: 'daily', label: 'DAILY' },
+  { mode: 'custom', label: 'CUSTOM' },
+];
+
+function EntryRow({ entry, rank }: { entry: LeaderboardEntry; rank: number }) {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.rank}>{rank}</Text>
+      <View style={styles.rowInfo}>
+        <Text style={styles.score}>{entry.score}</Text>
+        <Text style={styles.meta}>
+          {Math.floor(entry.distance / PIXELS_PER_METER)}M · {entry.gifts} GIFTS · SEED {entry.seed}
+        </Text>
+        <Text style={styles.meta}>{new Date(entry.date).toLocaleDateString()}</Text>
+      </View>
+    </View>
+  );
+}
+
+export default function LeaderboardScreen() {
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
+  const [mode, setMode] = useState<ScoredMode>('endless');
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const refresh = useCallback(() => {
+    loadLeaderboard()
+      .then(setLeaderboard)
+      .catch(error => console.log('Error loading leaderboard:', error));
+  }, []);
+
+  useFocusEffect(refresh);
+
+  const handleSelectMode = useCallback((next: ScoredMode) => {
+    setMode(next);
+    setConfirmClear(false);
+  }, []);
+
+  // Clearing is destructive, so it takes a second tap to confirm
+  const handleClear = useCallback(async () => {
+    if (!confirmClear) {
+      setConfirmClear(true);
+      return;
+    }
+    setConfirmClear(false);
+    try {
+      await clearLeaderboard(mode);
+    } catch (error) {
+      console.log('Error clearing leaderboard:', error);
+    }
+    refresh();
+  }, [confirmClear, mode, refresh]);
+
+  const entries = leaderboard?.[mode] ?? [];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.tabs}>
+        {MODES.map(({ mode: tabMode, label }) => (
+          <Pressable
+            key={tabMode}
+            style={[styles.tab, tabMode === mode && styles.tabActive]}
+            onPress={() => handleSelectMode(tabMode)}
+          >
+            <Text style={[styles.tabText, tabMode === mode && styles.tabTextActive]}>{label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <FlatList
+        data={entries}
+        keyExtractor={(entry, index) => `${entry.date}-${index}`}
+        renderItem={({ item, index }) => <EntryRow entry={item} rank={index + 1} />}
+        ListEmptyComponent={<Text style={styles.empty}>NO SCORES YET</Text>}
+        contentContainerStyle={styles.list}
+      />
+
+      <Pressable
+        testID="clear-leaderboard-button"
+        style={[styles.clearButton, entries.length === 0 && styles.clearButtonDisabled]}
+        disabled={entries.length === 0}
+        onPress={handleClear}
+      >
+        <Text style={styles.clearText}>{confirmClear ? 'TAP AGAIN TO CLEAR' : 'CLEAR SCORES'}</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#050510',
+  },
+  tabs: {
+    flexDirection: 'row',
+    padding: 16,
+    gap: 8,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: '#1a237e',
+    alignItems: 'center',
+  },
+  tabActive: {
+    borderColor: '#4fc3f7',
+    backgroundColor: 'rgba(79,195,247,0.15)',
+  },
+  tabText: {
+    fontFamily: 'Minecraft',
+    fontSize: 20,
+    color: '#546e7a',
+  },
+  tabTextActive: {
+    color: '#fff',
+  },
+  list: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  empty: {
+    fontFamily: 'Minecraft',
+    fontSize: 24,
+    color: '#546e7a',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#1a237e',
+    backgroundColor: '#0a0a20',
+  },
+  rank: {
+    fontFamily: 'Minecraft',
+    fontSize: 32,
+    color: '#4fc3f7',
+    width: 48,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  score: {
+    fontFamily: 'Minecraft',
+    fontSize: 28,
+    color: '#fff',
+  },
+  meta: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#81d4fa',
+  },
+  clearButton: {
+    margin: 16,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: '#ff5252',
+    alignItems: 'center',
+  },
+  clearButtonDisabled: {
+    opacity: 0.4,
+  },
+  clearText: {
+    fontFamily: 'Minecraft',
+    fontSize: 20,
+    color: '#ff5252',
+  },
+});
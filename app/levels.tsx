@@ -0,0 +1,135 @@
+import React, { useCallback, useState } from 'react';
+import { FlatList, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+
+import type { Level } from '@/game/level';
+import { BUNDLED_LEVELS } from '@/game/levels';
+import { loadLevelProgress, type LevelProgress, type LevelProgressMap } from '@/storage/levels';
+
+function LevelRow({
+  level,
+  number,
+  progress,
+  onPlay,
+}: {
+  level: Level;
+  number: number;
+  progress: LevelProgress | undefined;
+  onPlay: (level: Level) => void;
+}) {
+  const stars = progress?.stars ?? 0;
+
+  return (
+    <Pressable testID={`level-${level.id}`} style={styles.row} onPress={() => onPlay(level)}>
+      <Text style={styles.number}>{number}</Text>
+      <View style={styles.rowInfo}>
+        <Text style={styles.name}>{level.name.toUpperCase()}</Text>
+        <Text style={styles.description}>{level.description}</Text>
+        <Text style={styles.meta}>{progress ? `BEST ${progress.bestScore}` : 'NOT CLEARED YET'}</Text>
+      </View>
+      <Text style={styles.stars}>
+        {'★'.repeat(stars)}
+        <Text style={styles.starsEmpty}>{'★'.repeat(3 - stars)}</Text>
+      </Text>
+    </Pressable>
+  );
+}
+
+export default function LevelsScreen() {
+  const router = useRouter();
+  const [progress, setProgress] = useState<LevelProgressMap>({});
+
+  const refresh = useCallback(() => {
+    loadLevelProgress()
+      .then(setProgress)
+      .catch(error => console.log('Error loading level progress:', error));
+  }, []);
+
+  useFocusEffect(refresh);
+
+  const handlePlay = useCallback((level: Level) => {
+    router.navigate({ pathname: '/', params: { level: level.id } });
+  }, [router]);
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={BUNDLED_LEVELS}
+        keyExtractor={level => level.id}
+        renderItem={({ item, index }) => (
+          <LevelRow level={item} number={index + 1} progress={progress[item.id]} onPlay={handlePlay} />
+        )}
+        contentContainerStyle={styles.list}
+        ListFooterComponent={
+          <Pressable testID="level-editor-button" style={styles.editorButton} onPress={() => router.push('/editor')}>
+            <Text style={styles.editorButtonText}>BUILD YOUR OWN</Text>
+          </Pressable>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#050510',
+  },
+  list: {
+    padding: 16,
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#1a237e',
+    backgroundColor: '#0a0a20',
+  },
+  number: {
+    fontFamily: 'Minecraft',
+    fontSize: 32,
+    color: '#4fc3f7',
+    width: 40,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  name: {
+    fontFamily: 'Minecraft',
+    fontSize: 26,
+    color: '#fff',
+  },
+  description: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#b0bec5',
+  },
+  meta: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#81d4fa',
+    marginTop: 4,
+  },
+  stars: {
+    fontSize: 20,
+    color: '#ffd54f',
+    marginLeft: 8,
+  },
+  starsEmpty: {
+    color: '#37474f',
+  },
+  editorButton: {
+    marginTop: 8,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: '#4fc3f7',
+    alignItems: 'center',
+  },
+  editorButtonText: {
+    fontFamily: 'Minecraft',
+    fontSize: 22,
+    color: '#81d4fa',
+  },
+});
@@ -0,0 +1,242 @@
+import React, { useCallback, useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  Pressable,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+
+import { TIME_STEP } from '@/game/constants';
+import {
+  ReplayFormatError,
+  canPlayReplay,
+  parseReplay,
+  serializeReplay,
+  type Replay,
+} from '@/game/replay';
+import { deleteReplay, listReplays, saveReplay } from '@/storage/replays';
+
+function formatDuration(ticks: number): string {
+  const seconds = Math.floor((ticks * TIME_STEP) / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function ReplayRow({
+  replay,
+  onWatch,
+  onExport,
+  onDelete,
+}: {
+  replay: Replay;
+  onWatch: (replay: Replay) => void;
+  onExport: (replay: Replay) => void;
+  onDelete: (replay: Replay) => void;
+}) {
+  const playable = canPlayReplay(replay);
+
+  return (
+    <View style={styles.row}>
+      <View style={styles.rowInfo}>
+        <Text style={styles.rowScore}>{replay.score}</Text>
+        <Text style={styles.rowMeta}>
+          {replay.mode.toUpperCase()} · SEED {replay.seed} · {formatDuration(replay.durationTicks)}
+        </Text>
+        <Text style={styles.rowMeta}>{new Date(replay.recordedAt).toLocaleString()}</Text>
+        {!playable && <Text style={styles.outdated}>RECORDED ON AN OLDER VERSION</Text>}
+      </View>
+      <View style={styles.rowActions}>
+        <Pressable
+          style={[styles.button, !playable && styles.buttonDisabled]}
+          disabled={!playable}
+          onPress={() => onWatch(replay)}
+        >
+          <Text style={styles.buttonText}>WATCH</Text>
+        </Pressable>
+        <Pressable style={styles.button} onPress={() => onExport(replay)}>
+          <Text style={styles.buttonText}>EXPORT</Text>
+        </Pressable>
+        <Pressable style={styles.button} onPress={() => onDelete(replay)}>
+          <Text style={styles.buttonText}>DELETE</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+export default function ReplaysScreen() {
+  const router = useRouter();
+  const [replays, setReplays] = useState<Replay[]>([]);
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    listReplays()
+      .then(setReplays)
+      .catch(error => console.log('Error listing replays:', error));
+  }, []);
+
+  useFocusEffect(refresh);
+
+  const handleWatch = useCallback((replay: Replay) => {
+    router.navigate({ pathname: '/', params: { replay: replay.id } });
+  }, [router]);
+
+  const handleExport = useCallback(async (replay: Replay) => {
+    try {
+      await Share.share({ message: serializeReplay(replay) });
+    } catch (error) {
+      console.log('Error exporting replay:', error);
+    }
+  }, []);
+
+  const handleDelete = useCallback(async (replay: Replay) => {
+    try {
+      await deleteReplay(replay.id);
+    } catch (error) {
+      console.log('Error deleting replay:', error);
+      Alert.alert('Could not delete the replay');
+      return;
+    }
+    refresh();
+  }, [refresh]);
+
+  const handleImport = useCallback(async () => {
+    try {
+      const replay = parseReplay(importText);
+      await saveReplay(replay);
+      setImportText('');
+      setImportError(null);
+      refresh();
+    } catch (error) {
+      if (error instanceof ReplayFormatError) {
+        setImportError(error.message);
+      } else {
+        console.log('Error importing replay:', error);
+        setImportError('Could not save the replay');
+      }
+    }
+  }, [importText, refresh]);
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={replays}
+        keyExtractor={replay => replay.id}
+        renderItem={({ item }) => (
+          <ReplayRow replay={item} onWatch={handleWatch} onExport={handleExport} onDelete={handleDelete} />
+        )}
+        ListEmptyComponent={<Text style={styles.empty}>NO REPLAYS YET</Text>}
+        contentContainerStyle={styles.list}
+      />
+
+      <View style={styles.importPanel}>
+        <TextInput
+          testID="replay-import-input"
+          style={styles.importInput}
+          value={importText}
+          onChangeText={setImportText}
+          placeholder="PASTE REPLAY JSON"
+          placeholderTextColor="#546e7a"
+          autoCapitalize="none"
+          autoCorrect={false}
+          multiline
+        />
+        {importError && <Text style={styles.error}>{importError}</Text>}
+        <Pressable
+          style={[styles.button, importText.trim().length === 0 && styles.buttonDisabled]}
+          disabled={importText.trim().length === 0}
+          onPress={handleImport}
+        >
+          <Text style={styles.buttonText}>IMPORT</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#050510',
+  },
+  list: {
+    padding: 16,
+    gap: 12,
+  },
+  empty: {
+    fontFamily: 'Minecraft',
+    fontSize: 24,
+    color: '#546e7a',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  row: {
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#1a237e',
+    backgroundColor: '#0a0a20',
+  },
+  rowInfo: {
+    marginBottom: 8,
+  },
+  rowScore: {
+    fontFamily: 'Minecraft',
+    fontSize: 32,
+    color: '#fff',
+  },
+  rowMeta: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#81d4fa',
+  },
+  outdated: {
+    fontFamily: 'Minecraft',
+    fontSize: 14,
+    color: '#ff5252',
+    marginTop: 4,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#4fc3f7',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    fontFamily: 'Minecraft',
+    fontSize: 18,
+    color: '#81d4fa',
+  },
+  importPanel: {
+    padding: 16,
+    gap: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#1a237e',
+  },
+  importInput: {
+    minHeight: 60,
+    maxHeight: 120,
+    padding: 8,
+    borderWidth: 1,
+    borderColor: '#37474f',
+    color: '#fff',
+    fontSize: 12,
+  },
+  error: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#ff5252',
+  },
+});
@@ -0,0 +1,286 @@
+import React, { useRef, useState } from 'react';
+import { PanResponder, Pressable, ScrollView, StyleSheet, Switch, Text, View } from 'react-native';
+import { useRouter } from 'expo-router';
+
+import { THEME_IDS, THEMES, type ThemeId } from '@/constants/colors';
+import { useSettings } from '@/storage/settings';
+
+const THUMB_SIZE = 24;
+
+function VolumeSlider({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  const [trackWidth, setTrackWidth] = useState(0);
+  // Drags are measured from where the finger went down, so the thumb never jumps mid-drag
+  const dragRef = useRef({ startX: 0, width: 0, onChange });
+  dragRef.current.width = trackWidth;
+  dragRef.current.onChange = onChange;
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      // Keep the drag when the finger strays off the track vertically
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: event => {
+        const drag = dragRef.current;
+        drag.startX = event.nativeEvent.locationX;
+        if (drag.width > 0) drag.onChange(Math.min(Math.max(drag.startX / drag.width, 0), 1));
+      },
+      onPanResponderMove: (_, gesture) => {
+        const drag = dragRef.current;
+        if (drag.width > 0) drag.onChange(Math.min(Math.max((drag.startX + gesture.dx) / drag.width, 0), 1));
+      },
+    })
+  ).current;
+
+  return (
+    <View style={styles.row}>
+      <View style={styles.rowHeader}>
+        <Text style={styles.label}>{label}</Text>
+        <Text style={styles.value}>{Math.round(value * 100)}%</Text>
+      </View>
+      <View
+        testID={`slider-${label.toLowerCase()}`}
+        style={styles.track}
+        onLayout={event => setTrackWidth(event.nativeEvent.layout.width)}
+        {...panResponder.panHandlers}
+      >
+        <View pointerEvents="none" style={styles.rail}>
+          <View style={[styles.railFill, { width: `${value * 100}%` }]} />
+        </View>
+        <View
+          pointerEvents="none"
+          style={[styles.thumb, { left: value * trackWidth - THUMB_SIZE / 2 }]}
+        />
+      </View>
+    </View>
+  );
+}
+
+function ToggleRow({
+  label,
+  detail,
+  value,
+  onChange,
+}: {
+  label: string;
+  detail: string;
+  value: boolean;
+  onChange: (value: boolean) => void;
+}) {
+  return (
+    <View style={[styles.row, styles.toggleRow]}>
+      <View style={styles.toggleInfo}>
+        <Text style={styles.label}>{label}</Text>
+        <Text style={styles.detail}>{detail}</Text>
+      </View>
+      <Switch
+        testID={`toggle-${label.toLowerCase().replace(/\s+/g, '-')}`}
+        value={value}
+        onValueChange={onChange}
+        trackColor={{ false: '#37474f', true: '#0288d1' }}
+        thumbColor={value ? '#81d4fa' : '#b0bec5'}
+      />
+    </View>
+  );
+}
+
+function ThemeRow({
+  id,
+  selected,
+  onSelect,
+}: {
+  id: ThemeId;
+  selected: boolean;
+  onSelect: (id: ThemeId) => void;
+}) {
+  const { name, colors } = THEMES[id];
+  return (
+    <Pressable
+      testID={`theme-${id}`}
+      style={[styles.row, styles.toggleRow, selected && styles.selectedRow]}
+      onPress={() => onSelect(id)}
+    >
+      <View style={styles.swatches}>
+        {[colors.sky, colors.accent, colors.tileBase, colors.tileTop].map((color, i) => (
+          <View key={i} style={[styles.swatch, { backgroundColor: color }]} />
+        ))}
+      </View>
+      <Text style={[styles.label, styles.toggleInfo]}>{name}</Text>
+      {selected && <Text style={styles.selectedText}>ON</Text>}
+    </Pressable>
+  );
+}
+
+export default function SettingsScreen() {
+  const router = useRouter();
+  const settings = useSettings();
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.section}>AUDIO</Text>
+      <VolumeSlider
+        label="MUSIC"
+        value={settings.musicVolume}
+        onChange={musicVolume => settings.update({ musicVolume })}
+      />
+      <VolumeSlider
+        label="SFX"
+        value={settings.sfxVolume}
+        onChange={sfxVolume => settings.update({ sfxVolume })}
+      />
+
+      <Text style={styles.section}>GAMEPLAY</Text>
+      <ToggleRow
+        label="HAPTICS"
+        detail="Vibrate on jumps, pickups and crashes"
+        value={settings.haptics}
+        onChange={haptics => settings.update({ haptics })}
+      />
+      <ToggleRow
+        label="REDUCED MOTION"
+        detail="No falling snow or spinning snowball"
+        value={settings.reducedMotion}
+        onChange={reducedMotion => settings.update({ reducedMotion })}
+      />
+      <ToggleRow
+        label="SHOW FPS"
+        detail="Frame rate counter in the corner while playing"
+        value={settings.showFps}
+        onChange={showFps => settings.update({ showFps })}
+      />
+
+      <Text style={styles.section}>THEME</Text>
+      {THEME_IDS.map(id => (
+        <ThemeRow key={id} id={id} selected={settings.theme === id} onSelect={theme => settings.update({ theme })} />
+      ))}
+
+      <Text style={styles.section}>PERFORMANCE</Text>
+      <View style={styles.row}>
+        <Text style={styles.detail}>
+          The autopilot plays a fixed course for 30 seconds, then reports frame times
+        </Text>
+        <Pressable
+          testID="benchmark-button"
+          style={styles.button}
+          onPress={() => router.navigate({ pathname: '/', params: { benchmark: '1' } })}
+        >
+          <Text style={styles.buttonText}>RUN BENCHMARK</Text>
+        </Pressable>
+      </View>
+
+      <Pressable testID="reset-settings-button" style={styles.button} onPress={settings.reset}>
+        <Text style={styles.buttonText}>RESET TO DEFAULTS</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#050510',
+  },
+  content: {
+    padding: 16,
+    gap: 8,
+  },
+  section: {
+    fontFamily: 'Minecraft',
+    fontSize: 20,
+    color: '#4fc3f7',
+    marginTop: 8,
+  },
+  row: {
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#1a237e',
+    backgroundColor: '#0a0a20',
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  label: {
+    fontFamily: 'Minecraft',
+    fontSize: 24,
+    color: '#fff',
+  },
+  value: {
+    fontFamily: 'Minecraft',
+    fontSize: 20,
+    color: '#81d4fa',
+  },
+  detail: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#b0bec5',
+  },
+  track: {
+    height: THUMB_SIZE,
+    justifyContent: 'center',
+  },
+  rail: {
+    height: 6,
+    backgroundColor: '#37474f',
+  },
+  railFill: {
+    height: 6,
+    backgroundColor: '#4fc3f7',
+  },
+  thumb: {
+    position: 'absolute',
+    top: 0,
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    backgroundColor: '#e1f5fe',
+    borderWidth: 2,
+    borderColor: '#4fc3f7',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  toggleInfo: {
+    flex: 1,
+  },
+  selectedRow: {
+    borderColor: '#69f0ae',
+  },
+  selectedText: {
+    fontFamily: 'Minecraft',
+    fontSize: 18,
+    color: '#69f0ae',
+  },
+  swatches: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: '#37474f',
+  },
+  swatch: {
+    width: 14,
+    height: 28,
+  },
+  button: {
+    marginTop: 16,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: '#4fc3f7',
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontFamily: 'Minecraft',
+    fontSize: 20,
+    color: '#81d4fa',
+  },
+});
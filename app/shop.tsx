@@ -0,0 +1,219 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { SnowballBody } from '@/components/SnowballBody';
+import {
+  buyItem,
+  equipItem,
+  ownsItem,
+  PurchaseError,
+  SNOWBALL_SKINS,
+  TILE_THEMES,
+  type ShopItem,
+  type Wallet,
+} from '@/game/shop';
+import { useTileTheme } from '@/hooks/useTheme';
+import { loadWallet, updateWallet, useWallet } from '@/storage/wallet';
+
+const PREVIEW_SIZE = 40;
+
+function TilePreview({ id }: { id: string }) {
+  const tileTheme = useTileTheme(id);
+  return (
+    <View style={[styles.tilePreview, { backgroundColor: tileTheme.base }]}>
+      <View style={[styles.tilePreviewTop, { backgroundColor: tileTheme.top }]} />
+      <View style={[styles.tilePreviewSnow, { backgroundColor: tileTheme.snow }]} />
+    </View>
+  );
+}
+
+function ItemPreview({ item }: { item: ShopItem }) {
+  if (item.category === 'snowball') return <SnowballBody skin={item} size={PREVIEW_SIZE} />;
+  return <TilePreview id={item.id} />;
+}
+
+function ShopRow({
+  item,
+  wallet,
+  onBuy,
+  onEquip,
+}: {
+  item: ShopItem;
+  wallet: Wallet;
+  onBuy: (item: ShopItem) => void;
+  onEquip: (item: ShopItem) => void;
+}) {
+  const owned = ownsItem(wallet, item);
+  const equipped = wallet.equipped[item.category] === item.id;
+  const affordable = wallet.gifts >= item.price;
+
+  return (
+    <View testID={`shop-${item.id}`} style={[styles.row, equipped && styles.equippedRow]}>
+      <View style={styles.preview}>
+        <ItemPreview item={item} />
+      </View>
+      <View style={styles.rowInfo}>
+        <Text style={styles.name}>{item.name}</Text>
+        <Text style={styles.meta}>{owned ? 'OWNED' : `🎁 ${item.price}`}</Text>
+      </View>
+      {equipped ? (
+        <Text style={styles.equippedText}>EQUIPPED</Text>
+      ) : owned ? (
+        <Pressable style={styles.button} onPress={() => onEquip(item)}>
+          <Text style={styles.buttonText}>EQUIP</Text>
+        </Pressable>
+      ) : (
+        <Pressable style={[styles.button, !affordable && styles.disabledButton]} onPress={() => onBuy(item)}>
+          <Text style={[styles.buttonText, !affordable && styles.disabledText]}>BUY</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+export default function ShopScreen() {
+  const wallet = useWallet(state => state.wallet);
+  const [shopError, setShopError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadWallet().catch(error => console.log('Error loading wallet:', error));
+  }, []);
+
+  const change = useCallback(async (update: (wallet: Wallet) => Wallet) => {
+    try {
+      await updateWallet(update);
+      setShopError(null);
+    } catch (error) {
+      if (error instanceof PurchaseError) {
+        setShopError(error.message);
+      } else {
+        console.log('Error updating wallet:', error);
+        setShopError('Could not save your wallet');
+      }
+    }
+  }, []);
+
+  const handleBuy = useCallback((item: ShopItem) => change(wallet => buyItem(wallet, item)), [change]);
+  const handleEquip = useCallback((item: ShopItem) => change(wallet => equipItem(wallet, item)), [change]);
+
+  if (!wallet) return <View style={styles.container} />;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text testID="wallet-balance" style={styles.balance}>🎁 {wallet.gifts}</Text>
+      <Text style={styles.hint}>Gifts from every run and mission are banked here</Text>
+      {shopError && <Text style={styles.error}>{shopError}</Text>}
+
+      <Text style={styles.sectionTitle}>SNOWBALLS</Text>
+      {SNOWBALL_SKINS.map(skin => (
+        <ShopRow key={skin.id} item={skin} wallet={wallet} onBuy={handleBuy} onEquip={handleEquip} />
+      ))}
+
+      <Text style={styles.sectionTitle}>TILES</Text>
+      {TILE_THEMES.map(theme => (
+        <ShopRow key={theme.id} item={theme} wallet={wallet} onBuy={handleBuy} onEquip={handleEquip} />
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#050510',
+  },
+  content: {
+    padding: 16,
+    gap: 8,
+  },
+  balance: {
+    fontFamily: 'Minecraft',
+    fontSize: 40,
+    color: '#fff',
+    textAlign: 'center',
+  },
+  hint: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#b0bec5',
+    textAlign: 'center',
+  },
+  error: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#ff5252',
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    fontFamily: 'Minecraft',
+    fontSize: 20,
+    color: '#4fc3f7',
+    letterSpacing: 1,
+    marginTop: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#1a237e',
+    backgroundColor: '#0a0a20',
+  },
+  equippedRow: {
+    borderColor: '#69f0ae',
+  },
+  preview: {
+    width: 56,
+    height: PREVIEW_SIZE + 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  tilePreview: {
+    width: 56,
+    height: PREVIEW_SIZE,
+    overflow: 'hidden',
+  },
+  tilePreviewTop: {
+    height: 8,
+  },
+  tilePreviewSnow: {
+    height: 6,
+    opacity: 0.5,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  name: {
+    fontFamily: 'Minecraft',
+    fontSize: 24,
+    color: '#fff',
+  },
+  meta: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#81d4fa',
+  },
+  button: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: '#4fc3f7',
+  },
+  buttonText: {
+    fontFamily: 'Minecraft',
+    fontSize: 18,
+    color: '#81d4fa',
+  },
+  disabledButton: {
+    borderColor: '#37474f',
+  },
+  disabledText: {
+    color: '#546e7a',
+  },
+  equippedText: {
+    fontFamily: 'Minecraft',
+    fontSize: 18,
+    color: '#69f0ae',
+  },
+});
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { Animated, StyleSheet, Text, View } from 'react-native';
+import { Trophy } from 'lucide-react-native';
+
+import type { Achievement } from '@/game/achievements';
+
+const SLIDE_TIME = 250;
+const SHOW_TIME = 2500;
+
+/**
+ * Slides in from the top to announce an unlock, then slides away and calls `onDone`. Mount one
+ * per achievement (keyed by its id) to show several in turn.
+ */
+export function AchievementToast({ achievement, onDone }: { achievement: Achievement; onDone: () => void }) {
+  const [shown] = useState(() => new Animated.Value(0));
+
+  useEffect(() => {
+    const animation = Animated.sequence([
+      Animated.timing(shown, { toValue: 1, duration: SLIDE_TIME, useNativeDriver: true }),
+      Animated.delay(SHOW_TIME),
+      Animated.timing(shown, { toValue: 0, duration: SLIDE_TIME, useNativeDriver: true }),
+    ]);
+    animation.start(({ finished }) => {
+      if (finished) onDone();
+    });
+    return () => animation.stop();
+  }, [shown, onDone]);
+
+  return (
+    <Animated.View
+      testID="achievement-toast"
+      style={[styles.toast, {
+        opacity: shown,
+        transform: [{ translateY: shown.interpolate({ inputRange: [0, 1], outputRange: [-40, 0] }) }],
+      }]}
+      pointerEvents="none"
+    >
+      <Trophy size={28} color="#ffd54f" strokeWidth={2.5} />
+      <View>
+        <Text style={styles.label}>ACHIEVEMENT UNLOCKED</Text>
+        <Text style={styles.name}>{achievement.name}</Text>
+      </View>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toast: {
+    position: 'absolute',
+    top: 180,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: '#ffd54f',
+    backgroundColor: 'rgba(10,10,32,0.9)',
+    zIndex: 60,
+  },
+  label: {
+    fontFamily: 'Minecraft',
+    fontSize: 14,
+    color: '#ffd54f',
+    letterSpacing: 1,
+  },
+  name: {
+    fontFamily: 'Minecraft',
+    fontSize: 22,
+    color: '#fff',
+  },
+});
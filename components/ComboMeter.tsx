@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { Animated, StyleSheet, Text } from 'react-native';
+
+import { fontStyle, type Theme } from '@/constants/colors';
+import type { ComboState } from '@/game/types';
+import { useThemedStyles } from '@/hooks/useTheme';
+
+const PUNCH_TIME = 120;
+
+// Multipliers read to one decimal place, so one that is decaying ticks down in steps
+function formatMultiplier(multiplier: number): string {
+  return `x${(Math.floor(multiplier * 10) / 10).toFixed(1)}`;
+}
+
+/**
+ * The running combo and the multiplier it has earned, punching out each time the chain grows.
+ * Reads `combo` from the simulation as the HUD re-renders; nothing shows without a chain or a
+ * multiplier above 1.
+ */
+export function ComboMeter({ combo }: { combo: ComboState }) {
+  const styles = useThemedStyles(createStyles);
+  const [punch] = useState(() => new Animated.Value(1));
+  const { count, multiplier } = combo;
+
+  useEffect(() => {
+    if (count === 0) return;
+    const animation = Animated.sequence([
+      Animated.timing(punch, { toValue: 1.35, duration: PUNCH_TIME / 2, useNativeDriver: true }),
+      Animated.timing(punch, { toValue: 1, duration: PUNCH_TIME, useNativeDriver: true }),
+    ]);
+    animation.start();
+    return () => animation.stop();
+  }, [count, punch]);
+
+  if (count === 0 && multiplier <= 1) return null;
+
+  return (
+    <Animated.View testID="combo-meter" style={[styles.meter, { transform: [{ scale: punch }] }]}>
+      {count > 0 && <Text style={styles.combo}>COMBO {count}</Text>}
+      <Text style={[styles.multiplier, count === 0 && styles.decaying]}>{formatMultiplier(multiplier)}</Text>
+    </Animated.View>
+  );
+}
+
+function createStyles({ colors, typography }: Theme) {
+  return StyleSheet.create({
+    meter: {
+      flexDirection: 'row',
+      alignItems: 'baseline',
+      gap: 10,
+      marginTop: 4,
+    },
+    combo: {
+      ...fontStyle(typography, 22, 1),
+      color: colors.accentSoft,
+    },
+    multiplier: {
+      ...fontStyle(typography, 28, 1),
+      color: colors.highlight,
+    },
+    decaying: {
+      color: colors.textMuted,
+    },
+  });
+}
@@ -0,0 +1,436 @@
+import React from 'react';
+import { StyleSheet, View, type StyleProp, type ViewStyle } from 'react-native';
+
+import { PowerUpIcon, POWER_UP_COLORS } from '@/components/PowerUpHud';
+import { WORLD_HEIGHT, WORLD_WIDTH } from '@/game/constants';
+import type { TileTheme } from '@/game/shop';
+import type { CollectibleData, HazardData, TileData, TileType } from '@/game/types';
+
+// World pieces in world units (see WorldView). Each comes as a body, drawn at its own origin for
+// the game's sprite pools to move around, and as a component placed relative to a camera that
+// keeps the snowball at the middle of the world view, for screens that draw with React.
+
+type BodyStyle = StyleProp<ViewStyle>;
+
+// Collectibles are drawn in a box this size, from their top-left corner
+export const COLLECTIBLE_SIZE = 40;
+export const FINISH_LINE_WIDTH = 20;
+
+// `theme` recolours normal tiles; without one they keep the winter-night look
+export function TileBody({ tile, theme, style }: { tile: TileData; theme?: TileTheme; style?: BodyStyle }) {
+  const themed = theme && tile.type === 'normal';
+  return (
+    <View style={[styles.tile, TILE_TYPE_STYLES[tile.type].base, themed && { backgroundColor: theme.base }, { width: tile.width }, style]}>
+      <View style={[styles.tileTop, TILE_TYPE_STYLES[tile.type].top, themed && { backgroundColor: theme.top }]} />
+      <View style={[styles.tileSnow, TILE_TYPE_STYLES[tile.type].snow, themed && { backgroundColor: theme.snow }]} />
+      {tile.type === 'icy' && <View style={styles.iceShine} />}
+      {tile.type === 'crumbling' && (
+        <>
+          <View style={[styles.crack, { left: '25%', transform: [{ rotate: '20deg' }] }]} />
+          <View style={[styles.crack, { left: '60%', transform: [{ rotate: '-15deg' }] }]} />
+        </>
+      )}
+      {tile.type === 'moving' && (
+        <>
+          <View style={[styles.moverRail, { left: 6 }]} />
+          <View style={[styles.moverRail, { right: 6 }]} />
+        </>
+      )}
+    </View>
+  );
+}
+
+// Crumbling tiles shake while their timer runs down
+export function tileShake(tile: TileData): number {
+  const crumbleTicks = tile.crumble?.ticksLeft;
+  return crumbleTicks ? (crumbleTicks % 4) - 1.5 : 0;
+}
+
+export const Tile = React.memo(({ tile, cameraX }: { tile: TileData; cameraX: number }) => {
+  const screenX = tile.x - cameraX;
+  if (screenX < -tile.width || screenX > WORLD_WIDTH) return null;
+
+  return (
+    <TileBody
+      tile={tile}
+      style={{
+        left: screenX + WORLD_WIDTH / 2 - tile.width / 2,
+        top: tile.surfaceY,
+        transform: [{ translateX: tileShake(tile) }],
+      }}
+    />
+  );
+});
+Tile.displayName = 'Tile';
+
+const TILE_TYPE_STYLES: Record<TileType, { base?: ViewStyle; top?: ViewStyle; snow?: ViewStyle }> = {
+  normal: {},
+  icy: {
+    base: { backgroundColor: '#0d47a1' },
+    top: { backgroundColor: '#e0f7fa' },
+    snow: { backgroundColor: '#4dd0e1', opacity: 0.7 },
+  },
+  crumbling: {
+    base: { backgroundColor: '#37474f' },
+    top: { backgroundColor: '#cfd8dc' },
+    snow: { backgroundColor: '#78909c' },
+  },
+  bouncy: {
+    base: { backgroundColor: '#283593' },
+    top: { height: 22, borderTopLeftRadius: 11, borderTopRightRadius: 11, backgroundColor: '#ffffff' },
+    snow: { top: 22, backgroundColor: '#bbdefb', opacity: 0.8 },
+  },
+  moving: {
+    base: { backgroundColor: '#4527a0' },
+    top: { backgroundColor: '#ede7f6' },
+    snow: { backgroundColor: '#b39ddb' },
+  },
+};
+
+// Rolling logs spin with the distance they have covered
+export function hazardRotation(hazard: HazardData): number {
+  return hazard.kind === 'log' ? (-hazard.x * 4) % 360 : 0;
+}
+
+export function HazardBody({ hazard, style }: { hazard: HazardData; style?: BodyStyle }) {
+  const frame = [styles.hazard, { width: hazard.width, height: hazard.height }, style];
+
+  switch (hazard.kind) {
+    case 'iceSpike':
+      return (
+        <View style={frame}>
+          <View style={styles.iceSpike} />
+        </View>
+      );
+    case 'snowman':
+      return (
+        <View style={frame}>
+          <View style={styles.snowmanHat} />
+          <View style={styles.snowmanHead} />
+          <View style={styles.snowmanBody} />
+        </View>
+      );
+    case 'icicle':
+      return (
+        <View style={frame}>
+          <View style={styles.icicleBase} />
+          <View style={styles.icicle} />
+        </View>
+      );
+    case 'log':
+      return (
+        <View style={frame}>
+          <View style={styles.log}>
+            <View style={styles.logRing} />
+          </View>
+        </View>
+      );
+  }
+}
+
+export const Hazard = React.memo(({ hazard, cameraX }: { hazard: HazardData; cameraX: number }) => {
+  const screenX = hazard.x - cameraX;
+  if (screenX < -100 || screenX > WORLD_WIDTH) return null;
+
+  return (
+    <HazardBody
+      hazard={hazard}
+      style={{
+        left: screenX + WORLD_WIDTH / 2 - hazard.width / 2,
+        top: hazard.y,
+        transform: [{ rotate: `${hazardRotation(hazard)}deg` }],
+      }}
+    />
+  );
+});
+Hazard.displayName = 'Hazard';
+
+export function CollectibleBody({ collectible, style }: { collectible: CollectibleData; style?: BodyStyle }) {
+  if (collectible.kind !== 'gift') {
+    return (
+      <View style={[styles.collectible, style]}>
+        <View style={[styles.powerUpOrb, { borderColor: POWER_UP_COLORS[collectible.kind], shadowColor: POWER_UP_COLORS[collectible.kind] }]}>
+          <PowerUpIcon kind={collectible.kind} size={22} />
+        </View>
+      </View>
+    );
+  }
+
+  // 3D Gift Box Construction
+  return (
+    <View style={[styles.collectible, style]}>
+      <View style={styles.giftContainer}>
+        {/* Shadow */}
+        <View style={styles.giftShadow} />
+        
+        {/* 3D Box Construction */}
+        <View style={styles.giftBoxSide} />
+        <View style={styles.giftBoxTop} />
+        <View style={styles.giftBoxFront}>
+           <View style={styles.giftRibbonV} />
+           <View style={styles.giftRibbonH} />
+        </View>
+        <View style={styles.giftBoxTopRibbon} />
+      </View>
+    </View>
+  );
+}
+
+export const Collectible = React.memo(({ collectible, cameraX }: { collectible: CollectibleData; cameraX: number }) => {
+  if (collectible.collected) return null;
+  const screenX = collectible.x - cameraX;
+  if (screenX < -100 || screenX > WORLD_WIDTH) return null;
+
+  return <CollectibleBody collectible={collectible} style={{ left: screenX + WORLD_WIDTH / 2, top: collectible.y }} />;
+});
+Collectible.displayName = 'Collectible';
+
+// Checkered banner across the course at a level's finish line
+export function FinishLineBody({ style }: { style?: BodyStyle }) {
+  return (
+    <View style={[styles.finishLine, style]}>
+      {Array.from({ length: Math.ceil(WORLD_HEIGHT / 20) }, (_, i) => (
+        <View key={i} style={styles.finishRow}>
+          <View style={[styles.finishCell, i % 2 === 0 && styles.finishCellDark]} />
+          <View style={[styles.finishCell, i % 2 === 1 && styles.finishCellDark]} />
+        </View>
+      ))}
+    </View>
+  );
+}
+
+export const FinishLine = React.memo(({ finishX, cameraX }: { finishX: number; cameraX: number }) => {
+  const screenX = finishX - cameraX;
+  if (screenX < -WORLD_WIDTH / 2 - 40 || screenX > WORLD_WIDTH / 2) return null;
+
+  return <FinishLineBody style={{ left: screenX + WORLD_WIDTH / 2 - FINISH_LINE_WIDTH / 2 }} />;
+});
+FinishLine.displayName = 'FinishLine';
+
+const styles = StyleSheet.create({
+  tile: {
+    position: 'absolute',
+    height: WORLD_HEIGHT, // Extend past the bottom of the world from any surface height
+    backgroundColor: '#1a237e', // Dark blue base
+  },
+  tileTop: {
+    height: 12,
+    backgroundColor: '#e3f2fd', // Snow layer
+    width: '100%',
+  },
+  tileSnow: {
+    position: 'absolute',
+    top: 12,
+    width: '100%',
+    height: 10,
+    backgroundColor: '#90caf9',
+    opacity: 0.5,
+  },
+  iceShine: {
+    position: 'absolute',
+    top: 3,
+    left: '10%',
+    width: '30%',
+    height: 3,
+    backgroundColor: '#ffffff',
+    opacity: 0.8,
+  },
+  crack: {
+    position: 'absolute',
+    top: 8,
+    width: 2,
+    height: 28,
+    backgroundColor: '#263238',
+  },
+  moverRail: {
+    position: 'absolute',
+    top: 26,
+    width: 4,
+    height: 24,
+    backgroundColor: '#b39ddb',
+    borderRadius: 2,
+  },
+  collectible: {
+    position: 'absolute',
+    width: COLLECTIBLE_SIZE,
+    height: COLLECTIBLE_SIZE,
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 20,
+  },
+  powerUpOrb: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 2,
+    backgroundColor: 'rgba(5,5,16,0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowOpacity: 0.8,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  giftContainer: {
+    width: 32,
+    height: 32,
+    position: 'relative',
+  },
+  giftShadow: {
+    position: 'absolute',
+    bottom: -5,
+    left: 2,
+    width: 28,
+    height: 8,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+    borderRadius: 10,
+  },
+  giftBoxFront: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    width: 32,
+    height: 32,
+    backgroundColor: '#d32f2f', // Red
+    borderWidth: 1,
+    borderColor: '#b71c1c',
+    zIndex: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  giftBoxTop: {
+    position: 'absolute',
+    top: -10, // Shift up
+    left: 5,  // Shift right
+    width: 32,
+    height: 10,
+    backgroundColor: '#ff5252', // Lighter red for top
+    transform: [{ skewX: '-45deg' }],
+    borderWidth: 1,
+    borderColor: '#d32f2f',
+    zIndex: 1,
+  },
+  giftBoxSide: {
+    position: 'absolute',
+    top: -5,
+    right: -5,
+    width: 10,
+    height: 32,
+    backgroundColor: '#b71c1c', // Darker red for side
+    transform: [{ skewY: '-45deg' }],
+    borderWidth: 1,
+    borderColor: '#7f0000',
+    zIndex: 1,
+  },
+  giftRibbonV: {
+    position: 'absolute',
+    left: 12, // Center
+    width: 8,
+    height: '100%',
+    backgroundColor: '#fff',
+  },
+  giftRibbonH: {
+    position: 'absolute',
+    top: 12, // Center
+    width: '100%',
+    height: 8,
+    backgroundColor: '#fff',
+  },
+  giftBoxTopRibbon: {
+     position: 'absolute',
+     top: -10,
+     left: 17, // aligned with skew
+     width: 8,
+     height: 10,
+     backgroundColor: '#eee',
+     transform: [{ skewX: '-45deg' }],
+     zIndex: 3,
+  },
+  hazard: {
+    position: 'absolute',
+    alignItems: 'center',
+    zIndex: 15,
+  },
+  iceSpike: {
+    width: 0,
+    height: 0,
+    borderLeftWidth: 15,
+    borderRightWidth: 15,
+    borderBottomWidth: 30,
+    borderLeftColor: 'transparent',
+    borderRightColor: 'transparent',
+    borderBottomColor: '#b3e5fc',
+  },
+  snowmanHat: {
+    width: 18,
+    height: 10,
+    backgroundColor: '#212121',
+  },
+  snowmanHead: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: '#fafafa',
+    marginTop: -2,
+  },
+  snowmanBody: {
+    width: 40,
+    height: 36,
+    borderRadius: 20,
+    backgroundColor: '#eceff1',
+    marginTop: -2,
+  },
+  icicleBase: {
+    width: 36,
+    height: 10,
+    backgroundColor: '#e3f2fd',
+    borderRadius: 3,
+  },
+  icicle: {
+    width: 0,
+    height: 0,
+    borderLeftWidth: 14,
+    borderRightWidth: 14,
+    borderTopWidth: 70,
+    borderLeftColor: 'transparent',
+    borderRightColor: 'transparent',
+    borderTopColor: '#81d4fa',
+  },
+  log: {
+    width: 50,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#6d4c41',
+    borderWidth: 2,
+    borderColor: '#3e2723',
+    justifyContent: 'center',
+    alignItems: 'flex-end',
+    paddingRight: 4,
+  },
+  logRing: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: '#a1887f',
+    borderWidth: 2,
+    borderColor: '#5d4037',
+  },
+  finishLine: {
+    position: 'absolute',
+    top: 0,
+    width: FINISH_LINE_WIDTH,
+    height: WORLD_HEIGHT,
+    opacity: 0.8,
+  },
+  finishRow: {
+    flexDirection: 'row',
+    height: 20,
+  },
+  finishCell: {
+    width: 10,
+    height: 20,
+    backgroundColor: '#ffffff',
+  },
+  finishCellDark: {
+    backgroundColor: '#1a237e',
+  },
+});
@@ -0,0 +1,107 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Check } from 'lucide-react-native';
+
+import { describeMission, type Mission, type MissionResult } from '@/game/missions';
+
+function MissionRow({ mission, result }: { mission: Mission; result?: MissionResult }) {
+  const completed = result?.completed ?? false;
+
+  return (
+    <View style={[styles.row, completed && styles.completedRow]}>
+      <View style={styles.info}>
+        <Text style={styles.description}>{describeMission(mission)}</Text>
+        {result && !completed && (
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${(result.progress / mission.goal) * 100}%` }]} />
+          </View>
+        )}
+      </View>
+      {completed ? (
+        <View style={styles.reward}>
+          <Check size={18} color="#69f0ae" strokeWidth={3} />
+          <Text style={[styles.rewardText, styles.completedText]}>+{mission.reward}</Text>
+        </View>
+      ) : (
+        <Text style={styles.rewardText}>
+          {result ? `${result.progress}/${mission.goal}` : `🎁 ${mission.reward}`}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+/**
+ * Missions with their rewards or, given a run's `results` (one per mission, in order), how far
+ * the run got with each of them.
+ */
+export function MissionList({ missions, results }: { missions: readonly Mission[]; results?: readonly MissionResult[] }) {
+  return (
+    <View testID="mission-list" style={styles.container}>
+      <Text style={styles.title}>{results ? 'MISSION PROGRESS' : 'MISSIONS'}</Text>
+      {missions.map((mission, i) => <MissionRow key={i} mission={mission} result={results?.[i]} />)}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: 320,
+    maxWidth: '90%',
+    marginTop: 20,
+    gap: 6,
+  },
+  title: {
+    fontFamily: 'Minecraft',
+    fontSize: 18,
+    color: '#4fc3f7',
+    letterSpacing: 1,
+    textAlign: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderWidth: 1,
+    borderColor: '#1a237e',
+    backgroundColor: 'rgba(10,10,32,0.8)',
+  },
+  completedRow: {
+    borderColor: '#69f0ae',
+  },
+  info: {
+    flex: 1,
+  },
+  description: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#fff',
+  },
+  progressTrack: {
+    height: 4,
+    marginTop: 4,
+    backgroundColor: '#1a237e',
+  },
+  progressFill: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    backgroundColor: '#4fc3f7',
+  },
+  reward: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  rewardText: {
+    fontFamily: 'Minecraft',
+    fontSize: 16,
+    color: '#81d4fa',
+  },
+  completedText: {
+    color: '#69f0ae',
+  },
+});
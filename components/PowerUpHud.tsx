@@ -0,0 +1,95 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import Svg, { Circle } from 'react-native-svg';
+import { ChevronsUp, Hourglass, Magnet, Shield, type LucideIcon } from 'lucide-react-native';
+
+import { POWER_UP_DURATIONS, POWER_UP_KINDS } from '@/game/powerups';
+import type { PowerUpKind } from '@/game/types';
+
+export const POWER_UP_ICONS: Record<PowerUpKind, LucideIcon> = {
+  magnet: Magnet,
+  shield: Shield,
+  slowMotion: Hourglass,
+  tripleJump: ChevronsUp,
+};
+
+export const POWER_UP_COLORS: Record<PowerUpKind, string> = {
+  magnet: '#ff5252',
+  shield: '#69f0ae',
+  slowMotion: '#b388ff',
+  tripleJump: '#ffd740',
+};
+
+const RING_SIZE = 44;
+const RING_STROKE = 4;
+const RING_RADIUS = (RING_SIZE - RING_STROKE) / 2;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+export function PowerUpIcon({ kind, size = 20 }: { kind: PowerUpKind; size?: number }) {
+  const Icon = POWER_UP_ICONS[kind];
+  return <Icon size={size} color={POWER_UP_COLORS[kind]} strokeWidth={2.5} />;
+}
+
+function PowerUpRing({ kind, remaining }: { kind: PowerUpKind; remaining: number }) {
+  const fraction = remaining / POWER_UP_DURATIONS[kind];
+
+  return (
+    <View style={styles.ring}>
+      <Svg width={RING_SIZE} height={RING_SIZE} style={StyleSheet.absoluteFill}>
+        <Circle
+          cx={RING_SIZE / 2}
+          cy={RING_SIZE / 2}
+          r={RING_RADIUS}
+          stroke="rgba(255,255,255,0.15)"
+          strokeWidth={RING_STROKE}
+          fill="rgba(0,0,0,0.4)"
+        />
+        {/* Drains clockwise from 12 o'clock */}
+        <Circle
+          cx={RING_SIZE / 2}
+          cy={RING_SIZE / 2}
+          r={RING_RADIUS}
+          stroke={POWER_UP_COLORS[kind]}
+          strokeWidth={RING_STROKE}
+          fill="none"
+          strokeDasharray={`${RING_CIRCUMFERENCE} ${RING_CIRCUMFERENCE}`}
+          strokeDashoffset={RING_CIRCUMFERENCE * (1 - fraction)}
+          strokeLinecap="round"
+          transform={`rotate(-90 ${RING_SIZE / 2} ${RING_SIZE / 2})`}
+        />
+      </Svg>
+      <PowerUpIcon kind={kind} />
+    </View>
+  );
+}
+
+export function PowerUpHud({ timers }: { timers: Record<PowerUpKind, number> }) {
+  const active = POWER_UP_KINDS.filter(kind => timers[kind] > 0);
+  if (active.length === 0) return null;
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      {active.map(kind => (
+        <PowerUpRing key={kind} kind={kind} remaining={timers[kind]} />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 120,
+    width: '100%',
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 10,
+    zIndex: 50,
+  },
+  ring: {
+    width: RING_SIZE,
+    height: RING_SIZE,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
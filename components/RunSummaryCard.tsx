@@ -0,0 +1,58 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { fontStyle, type Theme } from '@/constants/colors';
+import { formatRunTime, type RunSummary } from '@/game/summary';
+import { useThemedStyles } from '@/hooks/useTheme';
+
+// The run's numbers in a two-column grid, to sit under the score on the game-over screen
+export function RunSummaryCard({ summary }: { summary: RunSummary }) {
+  const styles = useThemedStyles(createStyles);
+  const stats: [string, string][] = [
+    ['DISTANCE', `${summary.distance}M`],
+    ['TIME', formatRunTime(summary.time)],
+    ['TOP SPEED', `${Math.round(summary.topSpeed)} M/S`],
+    ['GIFTS', `${summary.gifts}/${summary.giftsSpawned}`],
+    ['JUMPS', String(summary.jumps)],
+    ['DOUBLE JUMPS', String(summary.doubleJumps)],
+    ['NEAR MISSES', String(summary.nearMisses)],
+  ];
+
+  return (
+    <View testID="run-summary" style={styles.grid}>
+      {stats.map(([label, value]) => (
+        <View key={label} style={styles.cell}>
+          <Text style={styles.label}>{label}</Text>
+          <Text style={styles.value}>{value}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function createStyles({ colors, typography }: Theme) {
+  return StyleSheet.create({
+    grid: {
+      width: 280,
+      maxWidth: '90%',
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginTop: 8,
+      rowGap: 2,
+    },
+    cell: {
+      width: '50%',
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: 6,
+    },
+    label: {
+      ...fontStyle(typography, 14),
+      color: colors.textMuted,
+    },
+    value: {
+      ...fontStyle(typography, 14),
+      color: colors.accentSoft,
+    },
+  });
+}
@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import Svg, { Circle, Path } from 'react-native-svg';
+
+import type { SceneryKind, SceneryLayer } from '@/game/biomes';
+import { WORLD_HEIGHT, WORLD_WIDTH } from '@/game/constants';
+
+// Each layer repeats every SCENERY_PERIOD world units and is drawn two periods wide, so sliding
+// it left by up to one period (see sceneryOffset) always covers the world view.
+export const SCENERY_PERIOD = WORLD_WIDTH * 2;
+const SCENERY_WIDTH = SCENERY_PERIOD * 2;
+
+export const MOON_SIZE = 70;
+
+// Stable pseudo-random value in [0, 1) for shape `i` of a layer; the scenery never changes
+function hash(i: number, salt: number): number {
+  const value = Math.sin(i * 127.1 + salt * 311.7) * 43758.5453;
+  return value - Math.floor(value);
+}
+
+// Calls `draw` for every shape slot across the drawn width, repeating every period
+function eachSlot(spacing: number, draw: (x: number, slot: number) => void) {
+  const perPeriod = Math.round(SCENERY_PERIOD / spacing);
+  for (let i = -1; i <= perPeriod * 2; i++) draw(i * spacing, ((i % perPeriod) + perPeriod) % perPeriod);
+}
+
+function triangle(left: number, right: number, apexX: number, apexY: number, baseY: number): string {
+  return `M${left} ${baseY}L${apexX} ${apexY}L${right} ${baseY}Z`;
+}
+
+// The layer's silhouette, then any highlights drawn over it (snow caps, lit windows, ice)
+function layerPaths({ kind, baseline, height }: SceneryLayer): [string, string] {
+  const salt = baseline + height;
+  let shape = `M0 ${baseline}H${SCENERY_WIDTH}V${WORLD_HEIGHT}H0Z`;
+  let detail = '';
+
+  switch (kind) {
+    case 'mountains':
+      eachSlot(150, (x, slot) => {
+        const peak = height * (0.55 + 0.45 * hash(slot, salt));
+        const apexX = x + 40 * hash(slot, salt + 1);
+        const half = peak * 0.9;
+        shape += triangle(apexX - half, apexX + half, apexX, baseline - peak, baseline);
+        const cap = peak * 0.22;
+        detail += triangle(apexX - cap * 0.9, apexX + cap * 0.9, apexX, baseline - peak, baseline - peak + cap);
+      });
+      break;
+    case 'pines':
+      eachSlot(45, (x, slot) => {
+        const tall = height * (0.6 + 0.4 * hash(slot, salt));
+        const centerX = x + 15 * hash(slot, salt + 1);
+        for (let tier = 0; tier < 3; tier++) {
+          const half = tall * (0.22 - tier * 0.04);
+          const baseY = baseline - tall * tier * 0.28;
+          shape += triangle(centerX - half, centerX + half, centerX, baseY - tall * 0.45, baseY);
+        }
+      });
+      break;
+    case 'village':
+      eachSlot(90, (x, slot) => {
+        if (hash(slot, salt) < 0.35) return;
+        const width = 36 + 24 * hash(slot, salt + 1);
+        const wall = height * (0.45 + 0.3 * hash(slot, salt + 2));
+        const left = x + 10;
+        shape += `M${left} ${baseline}V${baseline - wall}H${left + width}V${baseline}Z`;
+        shape += triangle(left - 6, left + width + 6, left + width / 2, baseline - wall - width * 0.45, baseline - wall);
+        detail += `M${left + width * 0.3 - 4} ${baseline - wall * 0.7}h8v8h-8Z`;
+        if (hash(slot, salt + 3) > 0.5) detail += `M${left + width * 0.7 - 4} ${baseline - wall * 0.7}h8v8h-8Z`;
+      });
+      break;
+    case 'lake':
+      eachSlot(75, (x, slot) => {
+        const y = baseline + 20 + 120 * hash(slot, salt);
+        const length = 30 + 50 * hash(slot, salt + 1);
+        detail += `M${x} ${y}h${length}v2h-${length}Z`;
+      });
+      break;
+  }
+  return [shape, detail];
+}
+
+// Pines are silhouette alone
+const DETAIL_STYLES: Partial<Record<SceneryKind, { color: string; opacity: number }>> = {
+  mountains: { color: '#e3f2fd', opacity: 0.35 },
+  village: { color: '#ffd54f', opacity: 0.85 },
+  lake: { color: '#b3e5fc', opacity: 0.3 },
+};
+
+/**
+ * One layer of background scenery, drawn once from a single pair of paths. The world renderer
+ * scrolls it by moving the whole drawing, so the paths are never rebuilt while playing.
+ */
+export const SceneryLayerBody = React.memo(function SceneryLayerBody({ layer }: { layer: SceneryLayer }) {
+  const [shape, detail] = useMemo(() => layerPaths(layer), [layer]);
+  const detailStyle = DETAIL_STYLES[layer.kind];
+  return (
+    <Svg width={SCENERY_WIDTH} height={WORLD_HEIGHT}>
+      <Path d={shape} fill={layer.color} />
+      {detailStyle && detail !== '' && <Path d={detail} fill={detailStyle.color} fillOpacity={detailStyle.opacity} />}
+    </Svg>
+  );
+});
+
+export function MoonBody({ color }: { color: string }) {
+  return (
+    <Svg width={MOON_SIZE} height={MOON_SIZE}>
+      <Circle cx={MOON_SIZE / 2} cy={MOON_SIZE / 2} r={MOON_SIZE / 2} fill={color} fillOpacity={0.15} />
+      <Circle cx={MOON_SIZE / 2} cy={MOON_SIZE / 2} r={MOON_SIZE / 2 - 10} fill={color} />
+    </Svg>
+  );
+}
+
+// How far left to slide a layer with the given parallax when the camera is at `cameraX`
+export function sceneryOffset(cameraX: number, parallax: number): number {
+  const scrolled = (cameraX * parallax) % SCENERY_PERIOD;
+  return -(scrolled < 0 ? scrolled + SCENERY_PERIOD : scrolled);
+}
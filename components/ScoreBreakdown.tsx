@@ -0,0 +1,67 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { fontStyle, type Theme } from '@/constants/colors';
+import { SCORE_SOURCES } from '@/game/scoring';
+import type { ComboState, ScoreSource } from '@/game/types';
+import { useThemedStyles } from '@/hooks/useTheme';
+
+const SOURCE_LABELS: Record<ScoreSource, string> = {
+  distance: 'DISTANCE',
+  gifts: 'GIFTS',
+  dodges: 'DODGES',
+  cleanJumps: 'CLEAN JUMPS',
+  perfectLandings: 'PERFECT LANDINGS',
+};
+
+// Where a run's score came from, leaving out sources that paid nothing, and its best combo
+export function ScoreBreakdown({ sources, combo }: { sources: Record<ScoreSource, number>; combo: ComboState }) {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View testID="score-breakdown" style={styles.container}>
+      {SCORE_SOURCES.filter(source => sources[source] >= 1).map(source => (
+        <View key={source} style={styles.row}>
+          <Text style={styles.label}>{SOURCE_LABELS[source]}</Text>
+          <Text style={styles.value}>{Math.floor(sources[source])}</Text>
+        </View>
+      ))}
+      {combo.best > 0 && (
+        <View style={styles.row}>
+          <Text style={styles.label}>BEST COMBO</Text>
+          <Text style={[styles.value, styles.combo]}>{combo.best}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+function createStyles({ colors, typography }: Theme) {
+  return StyleSheet.create({
+    container: {
+      width: 280,
+      maxWidth: '90%',
+      marginTop: 8,
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderWidth: 1,
+      borderColor: colors.panelBorder,
+      backgroundColor: colors.panel,
+    },
+    row: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    label: {
+      ...fontStyle(typography, 16, 1),
+      color: colors.textMuted,
+    },
+    value: {
+      ...fontStyle(typography, 16),
+      color: colors.text,
+    },
+    combo: {
+      color: colors.highlight,
+    },
+  });
+}
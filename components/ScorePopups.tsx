@@ -0,0 +1,118 @@
+import React, { useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { Animated, StyleSheet, Text, View } from 'react-native';
+
+import { fontStyle, type Theme } from '@/constants/colors';
+import { WORLD_WIDTH } from '@/game/constants';
+import type { SimEvent } from '@/game/types';
+import { useThemedStyles } from '@/hooks/useTheme';
+
+type ScoredEvent = Extract<SimEvent, { type: 'scored' }>;
+
+// Oldest popups give way beyond this many
+const MAX_POPUPS = 8;
+const POPUP_TIME = 700;
+const POPUP_RISE = 60;
+const POPUP_WIDTH = 200;
+
+export interface ScorePopupsHandle {
+  // Floats the points from `event` up from where they were scored, as seen from `cameraX`
+  pop(event: ScoredEvent, cameraX: number): void;
+  clear(): void;
+}
+
+interface Popup {
+  id: number;
+  event: ScoredEvent;
+  // Screen x in world units, fixed when the popup appears
+  x: number;
+}
+
+function ScorePopup({ popup, onDone }: { popup: Popup; onDone: (id: number) => void }) {
+  const styles = useThemedStyles(createStyles);
+  const [progress] = useState(() => new Animated.Value(0));
+  const { event } = popup;
+
+  useEffect(() => {
+    const animation = Animated.timing(progress, { toValue: 1, duration: POPUP_TIME, useNativeDriver: true });
+    animation.start(({ finished }) => {
+      if (finished) onDone(popup.id);
+    });
+    return () => animation.stop();
+  }, [progress, onDone, popup.id]);
+
+  return (
+    <Animated.View
+      style={[styles.popup, {
+        left: popup.x - POPUP_WIDTH / 2,
+        top: event.y - 40,
+        opacity: progress.interpolate({ inputRange: [0, 0.6, 1], outputRange: [1, 1, 0] }),
+        transform: [
+          { translateY: progress.interpolate({ inputRange: [0, 1], outputRange: [0, -POPUP_RISE] }) },
+          { scale: progress.interpolate({ inputRange: [0, 0.15, 0.3, 1], outputRange: [0.6, 1.3, 1, 1] }) },
+        ],
+      }]}
+    >
+      <Text style={[styles.text, styles[event.source]]}>
+        {event.source === 'perfectLandings' ? 'PERFECT ' : event.source === 'cleanJumps' ? 'CLEAN ' : ''}+{event.points}
+      </Text>
+    </Animated.View>
+  );
+}
+
+/**
+ * Points popping up where they were scored. Lays out in world units, so it belongs inside a
+ * WorldView; each popup is its own short animation and the game loop only calls `pop`.
+ */
+export function ScorePopups({ ref }: { ref: React.Ref<ScorePopupsHandle> }) {
+  const [popups, setPopups] = useState<Popup[]>([]);
+  const nextIdRef = useRef(0);
+
+  useImperativeHandle(ref, () => ({
+    pop(event, cameraX) {
+      const popup = { id: nextIdRef.current++, event, x: event.x - cameraX + WORLD_WIDTH / 2 };
+      setPopups(current => [...current.slice(-(MAX_POPUPS - 1)), popup]);
+    },
+    clear() {
+      setPopups([]);
+    },
+  }), []);
+
+  const handleDone = useCallback((id: number) => {
+    setPopups(current => current.filter(popup => popup.id !== id));
+  }, []);
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="none">
+      {popups.map(popup => <ScorePopup key={popup.id} popup={popup} onDone={handleDone} />)}
+    </View>
+  );
+}
+
+function createStyles({ colors, typography }: Theme) {
+  return StyleSheet.create({
+    popup: {
+      position: 'absolute',
+      width: POPUP_WIDTH,
+      alignItems: 'center',
+    },
+    text: {
+      ...fontStyle(typography, 22, 1),
+      color: colors.text,
+      textShadowColor: colors.textShadow,
+      textShadowRadius: 2,
+      textShadowOffset: { width: 1, height: 1 },
+    },
+    gifts: {
+      color: colors.gold,
+    },
+    dodges: {
+      color: colors.accentSoft,
+    },
+    cleanJumps: {
+      color: colors.text,
+    },
+    perfectLandings: {
+      color: colors.success,
+    },
+  });
+}
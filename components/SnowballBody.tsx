@@ -0,0 +1,104 @@
+import React from 'react';
+import { StyleSheet, View, type StyleProp, type ViewStyle } from 'react-native';
+
+import type { SnowballFace, SnowballSkin } from '@/game/shop';
+
+// Features are laid out as fractions of the ball so it draws at any size
+function Face({ face, size }: { face: SnowballFace; size: number }) {
+  const eye = { width: size * 0.14, height: size * 0.14, borderRadius: size * 0.07, top: size * 0.3 };
+
+  switch (face) {
+    case 'smile':
+      return (
+        <>
+          <View style={[styles.feature, eye, { left: size * 0.24 }]} />
+          <View style={[styles.feature, eye, { right: size * 0.24 }]} />
+          <View style={[styles.nose, { top: size * 0.44, left: size * 0.44, width: size * 0.22, height: size * 0.1 }]} />
+          <View style={[styles.mouth, { top: size * 0.58, left: size * 0.3, width: size * 0.4, height: size * 0.16 }]} />
+        </>
+      );
+    case 'grin':
+      return (
+        <>
+          <View style={[styles.feature, styles.glowEye, eye, { left: size * 0.24 }]} />
+          <View style={[styles.feature, styles.glowEye, eye, { right: size * 0.24 }]} />
+          <View style={[styles.grin, { top: size * 0.58, left: size * 0.26, width: size * 0.48, height: size * 0.14 }]} />
+        </>
+      );
+    case 'shades':
+      return (
+        <>
+          <View style={[styles.feature, { top: size * 0.28, left: size * 0.14, width: size * 0.72, height: size * 0.06 }]} />
+          <View style={[styles.feature, { top: size * 0.28, left: size * 0.18, width: size * 0.28, height: size * 0.2, borderRadius: size * 0.06 }]} />
+          <View style={[styles.feature, { top: size * 0.28, right: size * 0.18, width: size * 0.28, height: size * 0.2, borderRadius: size * 0.06 }]} />
+          <View style={[styles.mouth, { top: size * 0.6, left: size * 0.34, width: size * 0.32, height: size * 0.12 }]} />
+        </>
+      );
+  }
+}
+
+/**
+ * A snowball in the given skin, `size` across. Faces and stripes turn with the ball, so a skin
+ * that has one shows the roll.
+ */
+export function SnowballBody({ skin, size, style }: { skin: SnowballSkin; size: number; style?: StyleProp<ViewStyle> }) {
+  return (
+    <View
+      style={[styles.ball, {
+        width: size,
+        height: size,
+        borderRadius: size / 2,
+        backgroundColor: skin.color,
+        borderColor: skin.border,
+        shadowColor: skin.glow,
+      }, skin.stripe !== undefined && styles.clipped, style]}
+    >
+      {skin.stripe && <View style={[styles.stripe, { top: size * 0.38, height: size * 0.2, backgroundColor: skin.stripe }]} />}
+      {skin.face && <Face face={skin.face} size={size} />}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  ball: {
+    borderWidth: 2,
+    shadowOpacity: 0.5,
+    shadowRadius: 10,
+    elevation: 5,
+  },
+  // Only for stripes: clipping would cut off the glow on iOS
+  clipped: {
+    overflow: 'hidden',
+  },
+  stripe: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+  },
+  feature: {
+    position: 'absolute',
+    backgroundColor: '#212121',
+  },
+  glowEye: {
+    backgroundColor: '#ffee58',
+  },
+  nose: {
+    position: 'absolute',
+    backgroundColor: '#ff9800',
+    borderTopRightRadius: 99,
+    borderBottomRightRadius: 99,
+  },
+  mouth: {
+    position: 'absolute',
+    borderBottomWidth: 2,
+    borderBottomLeftRadius: 99,
+    borderBottomRightRadius: 99,
+    borderColor: '#212121',
+  },
+  grin: {
+    position: 'absolute',
+    backgroundColor: '#ffee58',
+    borderBottomLeftRadius: 99,
+    borderBottomRightRadius: 99,
+  },
+});
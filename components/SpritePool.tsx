@@ -0,0 +1,183 @@
+import React, { useImperativeHandle, useRef, useState } from 'react';
+import { Animated, StyleSheet } from 'react-native';
+
+// Where a sprite goes this frame, in world units. Callers fill in one shared frame per pool
+// rather than allocating a fresh object for every sprite on every frame.
+export interface SpriteFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Degrees, about the frame's centre
+  rotate: number;
+  opacity: number;
+}
+
+export function createSpriteFrame(): SpriteFrame {
+  return { x: 0, y: 0, width: 0, height: 0, rotate: 0, opacity: 1 };
+}
+
+export interface SpritePoolHandle<T extends { id: number }> {
+  /**
+   * Shows the items `place` puts on screen. `place` fills in the frame and returns a key for how
+   * the item looks (its type, say), or null to leave it out.
+   */
+  draw(items: readonly T[], place: (item: T, frame: SpriteFrame) => string | null): void;
+  clear(): void;
+}
+
+interface SlotHandle<T extends { id: number }> {
+  show(item: T, look: string, frame: SpriteFrame): void;
+  hide(): void;
+}
+
+// One reusable view. Moving it only touches Animated values; React renders it again only when
+// the item it shows, the way that item looks or its size changes.
+function SpriteSlot<T extends { id: number }>({
+  ref,
+  renderItem,
+}: {
+  ref: React.Ref<SlotHandle<T>>;
+  renderItem: (item: T) => React.ReactNode;
+}) {
+  const [shown, setShown] = useState<{ item: T; width: number; height: number } | null>(null);
+  const shownRef = useRef<{ id: number; look: string; width: number; height: number } | null>(null);
+  const [values] = useState(() => {
+    const rotate = new Animated.Value(0);
+    return {
+      x: new Animated.Value(0),
+      y: new Animated.Value(0),
+      rotate,
+      rotation: rotate.interpolate({ inputRange: [0, 360], outputRange: ['0deg', '360deg'] }),
+      opacity: new Animated.Value(1),
+      // Last values written, so unchanged ones skip the update
+      last: { x: NaN, y: NaN, rotate: NaN, opacity: 1 },
+    };
+  });
+
+  useImperativeHandle(ref, () => ({
+    show(item, look, frame) {
+      const current = shownRef.current;
+      if (
+        !current ||
+        current.id !== item.id ||
+        current.look !== look ||
+        current.width !== frame.width ||
+        current.height !== frame.height
+      ) {
+        shownRef.current = { id: item.id, look, width: frame.width, height: frame.height };
+        setShown({ item, width: frame.width, height: frame.height });
+      }
+      const { last } = values;
+      if (last.x !== frame.x) values.x.setValue((last.x = frame.x));
+      if (last.y !== frame.y) values.y.setValue((last.y = frame.y));
+      if (last.rotate !== frame.rotate) values.rotate.setValue((last.rotate = frame.rotate));
+      if (last.opacity !== frame.opacity) values.opacity.setValue((last.opacity = frame.opacity));
+    },
+    hide() {
+      if (shownRef.current === null) return;
+      shownRef.current = null;
+      setShown(null);
+    },
+  }), [values]);
+
+  return (
+    <Animated.View
+      style={[styles.slot, shown && { width: shown.width, height: shown.height }, {
+        opacity: values.opacity,
+        transform: [{ translateX: values.x }, { translateY: values.y }, { rotate: values.rotation }],
+      }]}
+    >
+      {shown && renderItem(shown.item)}
+    </Animated.View>
+  );
+}
+
+/**
+ * A fixed set of `size` slots shared by whichever items are on screen. An item keeps its slot for
+ * as long as it stays visible and hands it back when it leaves; items beyond `size` aren't drawn.
+ */
+export function SpritePool<T extends { id: number }>({
+  ref,
+  size,
+  renderItem,
+}: {
+  ref: React.Ref<SpritePoolHandle<T>>;
+  size: number;
+  renderItem: (item: T) => React.ReactNode;
+}) {
+  const slotsRef = useRef<(SlotHandle<T> | null)[]>([]);
+  const [pool] = useState(() => ({
+    frame: createSpriteFrame(),
+    // Item id shown in each slot, and the draw in which it was last seen
+    ids: new Array<number | null>(size).fill(null),
+    seen: new Array<number>(size).fill(0),
+    slotOf: new Map<number, number>(),
+    pending: [] as T[],
+    draws: 0,
+  }));
+
+  useImperativeHandle(ref, () => ({
+    draw(items, place) {
+      const { frame, ids, seen, slotOf, pending } = pool;
+      const draw = ++pool.draws;
+      pending.length = 0;
+
+      for (const item of items) {
+        const look = place(item, frame);
+        if (look === null) continue;
+        const slot = slotOf.get(item.id);
+        if (slot === undefined) {
+          pending.push(item);
+          continue;
+        }
+        seen[slot] = draw;
+        slotsRef.current[slot]?.show(item, look, frame);
+      }
+
+      // Slots whose item left the screen free up before newcomers are placed
+      for (let slot = 0; slot < size; slot++) {
+        const id = ids[slot];
+        if (id === null || seen[slot] === draw) continue;
+        slotOf.delete(id);
+        ids[slot] = null;
+        slotsRef.current[slot]?.hide();
+      }
+
+      let slot = 0;
+      for (const item of pending) {
+        while (slot < size && ids[slot] !== null) slot++;
+        if (slot === size) break;
+        const look = place(item, frame);
+        if (look === null) continue;
+        ids[slot] = item.id;
+        seen[slot] = draw;
+        slotOf.set(item.id, slot);
+        slotsRef.current[slot]?.show(item, look, frame);
+      }
+    },
+    clear() {
+      pool.ids.fill(null);
+      pool.slotOf.clear();
+      for (const slot of slotsRef.current) slot?.hide();
+    },
+  }), [pool, size]);
+
+  return Array.from({ length: size }, (_, i) => (
+    <SpriteSlot<T>
+      key={i}
+      ref={handle => {
+        slotsRef.current[i] = handle;
+      }}
+      renderItem={renderItem}
+    />
+  ));
+}
+
+const styles = StyleSheet.create({
+  slot: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+  },
+});
@@ -0,0 +1,11 @@
+import React from 'react';
+
+import { DEFAULT_THEME, THEMES } from '@/constants/colors';
+import { ThemeContext } from '@/hooks/useTheme';
+import { useSettings } from '@/storage/settings';
+
+// Hands the theme chosen in settings to everything below it, switching as soon as it changes
+export function ThemeProvider({ children }: { children: React.ReactNode }) {
+  const themeId = useSettings(state => state.theme);
+  return <ThemeContext value={THEMES[themeId] ?? THEMES[DEFAULT_THEME]}>{children}</ThemeContext>;
+}
@@ -0,0 +1,430 @@
+import React, { useCallback, useImperativeHandle, useRef, useState } from 'react';
+import { Animated, StyleSheet, View } from 'react-native';
+
+import {
+  COLLECTIBLE_SIZE,
+  CollectibleBody,
+  FINISH_LINE_WIDTH,
+  FinishLineBody,
+  HazardBody,
+  TileBody,
+  hazardRotation,
+  tileShake,
+} from '@/components/CourseSprites';
+import { MOON_SIZE, MoonBody, SceneryLayerBody, sceneryOffset } from '@/components/Scenery';
+import { SnowballBody } from '@/components/SnowballBody';
+import { SpritePool, type SpriteFrame, type SpritePoolHandle } from '@/components/SpritePool';
+import type { Theme } from '@/constants/colors';
+import { BIOMES, biomeAt, biomeIndexAt, biomeTransition } from '@/game/biomes';
+import { MAX_PARTICLES, SNOWBALL_SIZE, WORLD_HEIGHT, WORLD_WIDTH } from '@/game/constants';
+import { SHATTER_PIECES } from '@/game/shatter';
+import { TILE_THEMES, type SnowballSkin, type TileTheme } from '@/game/shop';
+import type { CollectibleData, HazardData, ParticleData, SimState, TileData } from '@/game/types';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+
+// Slots per pool: comfortably more than can be on screen at once
+const TILE_SLOTS = 12;
+const COLLECTIBLE_SLOTS = 12;
+const HAZARD_SLOTS = 8;
+const GHOST_OPACITY = 0.35;
+// Trails are this many dots, each this many ticks further back
+const TRAIL_DOTS = 6;
+const TRAIL_SPACING = 3;
+const TRAIL_SIZE = 14;
+const NO_PARTICLES: ParticleData[] = [];
+
+export interface WorldRendererHandle {
+  /**
+   * Draws `sim` as it stands, with the personal-best `ghost` alongside when given. The snowball
+   * is left out once a run is over.
+   */
+  draw(sim: SimState, ghost: SimState | null, showSnowball: boolean): void;
+  // Pieces of a shattered snowball, drawn over the world until an empty list clears them
+  drawShatter(pieces: readonly ParticleData[]): void;
+  // Offsets everything but the sky, in world units
+  shake(dx: number, dy: number): void;
+}
+
+function renderCollectible(collectible: CollectibleData) {
+  return <CollectibleBody collectible={collectible} />;
+}
+
+function renderHazard(hazard: HazardData) {
+  return <HazardBody hazard={hazard} />;
+}
+
+/**
+ * The game world, drawn outside React's render cycle. The game loop calls `draw` every frame;
+ * that moves pooled views through Animated values, and React only gets involved when something
+ * scrolls into view. Lays out in world units, so it belongs inside a WorldView.
+ */
+export const WorldRenderer = React.memo(function WorldRenderer({
+  ref,
+  reducedMotion,
+  skin,
+  tileTheme,
+}: {
+  ref: React.Ref<WorldRendererHandle>;
+  reducedMotion: boolean;
+  skin: SnowballSkin;
+  tileTheme: TileTheme;
+}) {
+  const tilesRef = useRef<SpritePoolHandle<TileData>>(null);
+  const collectiblesRef = useRef<SpritePoolHandle<CollectibleData>>(null);
+  const hazardsRef = useRef<SpritePoolHandle<HazardData>>(null);
+  const snowflakesRef = useRef<SpritePoolHandle<ParticleData>>(null);
+  const shatterRef = useRef<SpritePoolHandle<ParticleData>>(null);
+  const reducedMotionRef = useRef(reducedMotion);
+  reducedMotionRef.current = reducedMotion;
+  const hasTrailRef = useRef(false);
+  hasTrailRef.current = skin.trail !== undefined;
+  const theme = useTheme();
+  const themed = useThemedStyles(createThemedStyles);
+  const particlesRef = useRef<Theme['particles']>(theme.particles);
+  particlesRef.current = theme.particles;
+
+  // Tiles that follow the theme take on the look of the biome they stand in
+  const biomeTiles = tileTheme.id === TILE_THEMES[0].id;
+  const renderTile = useCallback((tile: TileData) => {
+    const biomeLook = biomeTiles ? biomeAt(tile.x).tiles : undefined;
+    return <TileBody tile={tile} theme={biomeLook ? { ...tileTheme, ...biomeLook } : tileTheme} />;
+  }, [tileTheme, biomeTiles]);
+  const renderSnowflake = useCallback((particle: ParticleData) => (
+    <View style={[styles.snowflake, { width: particle.size, height: particle.size, backgroundColor: theme.particles.snow }]} />
+  ), [theme.particles.snow]);
+  const renderShatterPiece = useCallback((piece: ParticleData) => (
+    <View style={[styles.shatterPiece, { width: piece.size, height: piece.size, backgroundColor: skin.color }]} />
+  ), [skin.color]);
+
+  // Single sprites, moved and shown through Animated values alone
+  const [values] = useState(() => {
+    const rotate = new Animated.Value(0);
+    const snowballY = new Animated.Value(0);
+    return {
+      snowballY,
+      snowballRotation: rotate.interpolate({ inputRange: [0, 360], outputRange: ['0deg', '360deg'] }),
+      snowballRotate: rotate,
+      snowballOpacity: new Animated.Value(1),
+      shieldOpacity: new Animated.Value(0),
+      shieldY: Animated.add(snowballY, -8),
+      ghostX: new Animated.Value(0),
+      ghostY: new Animated.Value(0),
+      ghostOpacity: new Animated.Value(0),
+      finishX: new Animated.Value(0),
+      finishOpacity: new Animated.Value(0),
+      shakeX: new Animated.Value(0),
+      shakeY: new Animated.Value(0),
+      biomes: BIOMES.map((biome, i) => ({
+        opacity: new Animated.Value(i === 0 ? 1 : 0),
+        lastOpacity: i === 0 ? 1 : 0,
+        layers: biome.layers.map(() => new Animated.Value(0)),
+      })),
+      trail: Array.from({ length: TRAIL_DOTS }, () => ({
+        x: new Animated.Value(0),
+        y: new Animated.Value(0),
+        opacity: new Animated.Value(0),
+      })),
+    };
+  });
+
+  // The sim being drawn; the pools start over when it is swapped for a new run
+  const drawnRef = useRef<SimState | null>(null);
+
+  useImperativeHandle(ref, () => {
+    let cameraX = 0;
+    // Where the snowball was on recent ticks, oldest first, for the trail
+    const trail: { tick: number; cameraX: number; snowballY: number }[] = [];
+
+    const placeTile = (tile: TileData, frame: SpriteFrame) => {
+      const screenX = tile.x - cameraX;
+      if (screenX < -tile.width || screenX > WORLD_WIDTH) return null;
+      frame.x = screenX + WORLD_WIDTH / 2 - tile.width / 2 + tileShake(tile);
+      frame.y = tile.surfaceY;
+      frame.width = tile.width;
+      frame.height = WORLD_HEIGHT;
+      frame.rotate = 0;
+      frame.opacity = 1;
+      return `${tile.type}:${biomeIndexAt(tile.x)}`;
+    };
+
+    // Fades the biomes' scenery in and out with the camera, and scrolls only what can be seen
+    const drawScenery = () => {
+      const current = biomeIndexAt(cameraX);
+      const next = (current + 1) % BIOMES.length;
+      const transition = biomeTransition(cameraX);
+      values.biomes.forEach((biome, i) => {
+        const opacity = i === current ? 1 - transition : i === next ? transition : 0;
+        if (opacity !== biome.lastOpacity) biome.opacity.setValue((biome.lastOpacity = opacity));
+        if (opacity === 0) return;
+        BIOMES[i].layers.forEach((layer, j) => biome.layers[j].setValue(sceneryOffset(cameraX, layer.parallax)));
+      });
+    };
+
+    const placeCollectible = (collectible: CollectibleData, frame: SpriteFrame) => {
+      const screenX = collectible.x - cameraX;
+      if (collectible.collected || screenX < -100 || screenX > WORLD_WIDTH) return null;
+      frame.x = screenX + WORLD_WIDTH / 2;
+      frame.y = collectible.y;
+      frame.width = COLLECTIBLE_SIZE;
+      frame.height = COLLECTIBLE_SIZE;
+      frame.rotate = 0;
+      frame.opacity = 1;
+      return collectible.kind;
+    };
+
+    const placeHazard = (hazard: HazardData, frame: SpriteFrame) => {
+      const screenX = hazard.x - cameraX;
+      if (screenX < -100 || screenX > WORLD_WIDTH) return null;
+      frame.x = screenX + WORLD_WIDTH / 2 - hazard.width / 2;
+      frame.y = hazard.y;
+      frame.width = hazard.width;
+      frame.height = hazard.height;
+      frame.rotate = hazardRotation(hazard);
+      frame.opacity = 1;
+      return hazard.kind;
+    };
+
+    // Shatter pieces as they are, and snowflakes through placeSnowflake
+    const placeParticle = (particle: ParticleData, frame: SpriteFrame) => {
+      frame.x = particle.x;
+      frame.y = particle.y;
+      frame.width = particle.size;
+      frame.height = particle.size;
+      frame.rotate = 0;
+      frame.opacity = particle.opacity;
+      return '';
+    };
+
+    // Thinned out and faded to suit the theme
+    const placeSnowflake = (particle: ParticleData, frame: SpriteFrame) => {
+      const { density, snowOpacity } = particlesRef.current;
+      if (particle.id % 10 >= density * 10) return null;
+      placeParticle(particle, frame);
+      frame.opacity = particle.opacity * snowOpacity;
+      return '';
+    };
+
+    return {
+      draw(sim, ghost, showSnowball) {
+        if (drawnRef.current !== sim) {
+          drawnRef.current = sim;
+          for (const pool of [tilesRef, collectiblesRef, hazardsRef, snowflakesRef, shatterRef]) pool.current?.clear();
+          trail.length = 0;
+        }
+        cameraX = sim.cameraX;
+
+        drawScenery();
+        tilesRef.current?.draw(sim.tiles, placeTile);
+        hazardsRef.current?.draw(sim.hazards, placeHazard);
+        collectiblesRef.current?.draw(sim.collectibles, placeCollectible);
+        snowflakesRef.current?.draw(reducedMotionRef.current ? NO_PARTICLES : sim.particles, placeSnowflake);
+
+        const finishX = sim.finishX === null ? null : sim.finishX - cameraX;
+        const finishVisible = finishX !== null && finishX >= -WORLD_WIDTH / 2 - 40 && finishX <= WORLD_WIDTH / 2;
+        values.finishOpacity.setValue(finishVisible ? 1 : 0);
+        if (finishVisible) values.finishX.setValue(finishX + WORLD_WIDTH / 2 - FINISH_LINE_WIDTH / 2);
+
+        values.snowballOpacity.setValue(showSnowball ? 1 : 0);
+        values.snowballY.setValue(sim.snowballY);
+        values.snowballRotate.setValue(reducedMotionRef.current ? 0 : (sim.cameraX * 2) % 360);
+        values.shieldOpacity.setValue(showSnowball && sim.powerUps.shield > 0 ? 1 : 0);
+
+        const last = trail[trail.length - 1];
+        if (!last || last.tick !== sim.tick) {
+          trail.push({ tick: sim.tick, cameraX, snowballY: sim.snowballY });
+          if (trail.length > TRAIL_DOTS * TRAIL_SPACING) trail.shift();
+        }
+        const showTrail = showSnowball && hasTrailRef.current;
+        values.trail.forEach((dot, i) => {
+          const point = trail[trail.length - 1 - (i + 1) * TRAIL_SPACING];
+          dot.opacity.setValue(showTrail && point ? 0.6 * (1 - i / TRAIL_DOTS) : 0);
+          if (!point) return;
+          dot.x.setValue(point.cameraX - cameraX);
+          dot.y.setValue(point.snowballY + SNOWBALL_SIZE / 2 - TRAIL_SIZE / 2);
+        });
+
+        values.ghostOpacity.setValue(ghost && showSnowball ? GHOST_OPACITY : 0);
+        if (ghost) {
+          values.ghostX.setValue(ghost.cameraX - cameraX);
+          values.ghostY.setValue(ghost.snowballY);
+        }
+      },
+      drawShatter(pieces) {
+        shatterRef.current?.draw(pieces, placeParticle);
+      },
+      shake(dx, dy) {
+        values.shakeX.setValue(dx);
+        values.shakeY.setValue(dy);
+      },
+    };
+  }, [values]);
+
+  return (
+    <>
+      {/* Background with Gradient via Views */}
+      <View style={[styles.sky, { backgroundColor: theme.colors.sky }]}>
+        <View style={[styles.skyGradient1, { backgroundColor: theme.colors.skyUpper }]} />
+        <View style={[styles.skyGradient2, { backgroundColor: theme.colors.skyLower }]} />
+      </View>
+
+      {/* Scenery for each biome, faded across as the course moves from one to the next */}
+      {BIOMES.map((biome, i) => (
+        <Animated.View key={biome.id} style={[styles.scenery, { opacity: values.biomes[i].opacity }]}>
+          <View style={[styles.skyTint, { backgroundColor: biome.skyTint }]} />
+          <View style={styles.moon}>
+            <MoonBody color={biome.moon} />
+          </View>
+          {biome.layers.map((layer, j) => (
+            <Animated.View key={j} style={[styles.sceneryLayer, { transform: [{ translateX: values.biomes[i].layers[j] }] }]}>
+              <SceneryLayerBody layer={layer} />
+            </Animated.View>
+          ))}
+        </Animated.View>
+      ))}
+
+      <Animated.View style={[styles.shakeLayer, { transform: [{ translateX: values.shakeX }, { translateY: values.shakeY }] }]}>
+        {/* Stars / Distant Snow */}
+        <SpritePool ref={snowflakesRef} size={MAX_PARTICLES} renderItem={renderSnowflake} />
+
+        <SpritePool ref={tilesRef} size={TILE_SLOTS} renderItem={renderTile} />
+        <SpritePool ref={hazardsRef} size={HAZARD_SLOTS} renderItem={renderHazard} />
+        <SpritePool ref={collectiblesRef} size={COLLECTIBLE_SLOTS} renderItem={renderCollectible} />
+
+        <Animated.View style={[styles.finishLine, { opacity: values.finishOpacity, transform: [{ translateX: values.finishX }] }]}>
+          <FinishLineBody />
+        </Animated.View>
+
+        {/* Trail left by the skin */}
+        {values.trail.map((dot, i) => (
+          <Animated.View key={i} style={[styles.trailDot, {
+            backgroundColor: skin.trail,
+            opacity: dot.opacity,
+            transform: [{ translateX: dot.x }, { translateY: dot.y }, { scale: 1 - i / (TRAIL_DOTS + 2) }],
+          }]} />
+        ))}
+
+        {/* Ghost of the personal best on this course */}
+        <Animated.View style={[styles.ghostSnowball, themed.ghostSnowball, {
+          opacity: values.ghostOpacity,
+          transform: [{ translateX: values.ghostX }, { translateY: values.ghostY }],
+        }]} />
+
+        {/* Shield aura */}
+        <Animated.View style={[styles.shieldAura, themed.shieldAura, {
+          opacity: values.shieldOpacity,
+          transform: [{ translateY: values.shieldY }],
+        }]} />
+
+        {/* Snowball */}
+        <Animated.View style={[styles.snowballFrame, {
+          opacity: values.snowballOpacity,
+          transform: [{ translateY: values.snowballY }, { rotate: values.snowballRotation }], // Rotate rolling effect
+        }]}>
+          <SnowballBody skin={skin} size={SNOWBALL_SIZE} />
+        </Animated.View>
+
+        <SpritePool ref={shatterRef} size={SHATTER_PIECES} renderItem={renderShatterPiece} />
+      </Animated.View>
+    </>
+  );
+});
+
+const styles = StyleSheet.create({
+  sky: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  skyGradient1: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    height: WORLD_HEIGHT / 2,
+    opacity: 0.5,
+  },
+  skyGradient2: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    height: WORLD_HEIGHT / 2,
+    opacity: 0.3,
+  },
+  scenery: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  skyTint: {
+    ...StyleSheet.absoluteFillObject,
+    opacity: 0.35,
+  },
+  moon: {
+    position: 'absolute',
+    top: 90,
+    right: 60,
+    width: MOON_SIZE,
+    height: MOON_SIZE,
+  },
+  sceneryLayer: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+  },
+  shakeLayer: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  snowflake: {
+    borderRadius: 99,
+  },
+  shatterPiece: {
+    borderRadius: 2,
+  },
+  finishLine: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+  },
+  ghostSnowball: {
+    position: 'absolute',
+    top: 0,
+    left: WORLD_WIDTH / 2 - SNOWBALL_SIZE / 2,
+    width: SNOWBALL_SIZE,
+    height: SNOWBALL_SIZE,
+    borderRadius: SNOWBALL_SIZE / 2,
+    borderWidth: 2,
+  },
+  snowballFrame: {
+    position: 'absolute',
+    top: 0,
+    left: WORLD_WIDTH / 2 - SNOWBALL_SIZE / 2,
+  },
+  trailDot: {
+    position: 'absolute',
+    top: 0,
+    left: WORLD_WIDTH / 2 - TRAIL_SIZE / 2,
+    width: TRAIL_SIZE,
+    height: TRAIL_SIZE,
+    borderRadius: TRAIL_SIZE / 2,
+  },
+  shieldAura: {
+    position: 'absolute',
+    top: 0,
+    left: WORLD_WIDTH / 2 - SNOWBALL_SIZE / 2 - 8,
+    width: SNOWBALL_SIZE + 16,
+    height: SNOWBALL_SIZE + 16,
+    borderRadius: (SNOWBALL_SIZE + 16) / 2,
+    borderWidth: 2,
+  },
+});
+
+// The colours above that follow the theme
+function createThemedStyles({ colors }: Theme) {
+  return StyleSheet.create({
+    ghostSnowball: {
+      backgroundColor: colors.ghost,
+      borderColor: colors.ghostBorder,
+    },
+    shieldAura: {
+      borderColor: colors.shield,
+      backgroundColor: colors.shieldFill,
+    },
+  });
+}
@@ -0,0 +1,33 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { WORLD_HEIGHT, WORLD_WIDTH } from '@/game/constants';
+import type { Viewport } from '@/hooks/useViewport';
+
+// Children are laid out in world units; the viewport scales and places them on the screen. The
+// world is clipped to its own bounds so nothing past its edges shows in the letterbox bars, and
+// leaves touches to the screen around it.
+export function WorldView({ viewport, children }: { viewport: Viewport; children: React.ReactNode }) {
+  return (
+    <View
+      pointerEvents="none"
+      style={[styles.world, {
+        left: viewport.offsetX,
+        top: viewport.offsetY,
+        transform: [{ scale: viewport.scale }],
+      }]}
+    >
+      {children}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  world: {
+    position: 'absolute',
+    width: WORLD_WIDTH,
+    height: WORLD_HEIGHT,
+    overflow: 'hidden',
+    transformOrigin: 'top left',
+  },
+});
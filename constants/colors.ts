@@ -1,12 +1,203 @@
-// template
-const tintColorLight = "#2f95dc";
+// Visual themes for the game screen. GameScreen and the world renderer take every colour, the
+// snowfall and the type from the active theme (see useTheme), so a restyle happens here rather
+// than across their style sheets.
 
-export default {
-  light: {
-    text: "#000",
-    background: "#fff",
-    tint: tintColorLight,
-    tabIconDefault: "#ccc",
-    tabIconSelected: tintColorLight,
+export type ThemeId = 'night' | 'aurora' | 'dawn' | 'highContrast';
+
+export interface ThemeColors {
+  // Behind the world, and the two bands laid over it
+  sky: string;
+  skyUpper: string;
+  skyLower: string;
+  // Bars either side of the world when the screen is a different shape
+  letterbox: string;
+  // Dims the world behind menus
+  overlay: string;
+  text: string;
+  textMuted: string;
+  textShadow: string;
+  accent: string;
+  accentSoft: string;
+  accentFaint: string;
+  danger: string;
+  dangerSoft: string;
+  success: string;
+  gold: string;
+  highlight: string;
+  panel: string;
+  panelBorder: string;
+  inputBorder: string;
+  placeholder: string;
+  // Normal tiles, unless the player has equipped a tile theme from the shop
+  tileBase: string;
+  tileTop: string;
+  tileSnow: string;
+  // The personal-best ghost, drawn faded, and the aura of an active shield
+  ghost: string;
+  ghostBorder: string;
+  shield: string;
+  shieldFill: string;
+}
+
+export interface ThemeParticles {
+  snow: string;
+  // Multiplies each snowflake's own opacity
+  snowOpacity: number;
+  // Share of the simulation's snowflakes that get drawn, from 0 to 1
+  density: number;
+}
+
+export interface ThemeTypography {
+  fontFamily: string;
+  // Multiplies every font size
+  scale: number;
+  // Added to each style's own letter spacing
+  letterSpacing: number;
+}
+
+export interface Theme {
+  id: ThemeId;
+  name: string;
+  colors: ThemeColors;
+  particles: ThemeParticles;
+  typography: ThemeTypography;
+}
+
+const night: Theme = {
+  id: 'night',
+  name: 'NIGHT',
+  colors: {
+    sky: '#050510',
+    skyUpper: '#0a0a20',
+    skyLower: '#151530',
+    letterbox: '#000',
+    overlay: 'rgba(0,0,0,0.4)',
+    text: '#fff',
+    textMuted: '#aaa',
+    textShadow: 'black',
+    accent: '#4fc3f7',
+    accentSoft: '#81d4fa',
+    accentFaint: 'rgba(79,195,247,0.15)',
+    danger: '#ff5252',
+    dangerSoft: '#ff8a80',
+    success: '#69f0ae',
+    gold: '#ffd54f',
+    highlight: '#ffd740',
+    panel: '#0a0a20',
+    panelBorder: '#1a237e',
+    inputBorder: '#37474f',
+    placeholder: '#546e7a',
+    tileBase: '#1a237e',
+    tileTop: '#e3f2fd',
+    tileSnow: '#90caf9',
+    ghost: '#b3e5fc',
+    ghostBorder: '#e1f5fe',
+    shield: '#69f0ae',
+    shieldFill: 'rgba(105,240,174,0.15)',
+  },
+  particles: { snow: '#fff', snowOpacity: 1, density: 1 },
+  typography: { fontFamily: 'Minecraft', scale: 1, letterSpacing: 0 },
+};
+
+const aurora: Theme = {
+  id: 'aurora',
+  name: 'AURORA',
+  colors: {
+    ...night.colors,
+    sky: '#02100f',
+    skyUpper: '#0b3d2e',
+    skyLower: '#1a1040',
+    accent: '#64ffda',
+    accentSoft: '#a7ffeb',
+    accentFaint: 'rgba(100,255,218,0.15)',
+    highlight: '#eeff41',
+    panel: '#041a19',
+    panelBorder: '#00695c',
+    tileBase: '#004d40',
+    tileTop: '#e0f2f1',
+    tileSnow: '#80cbc4',
+    ghost: '#a7ffeb',
+    ghostBorder: '#e0f2f1',
+    shield: '#eeff41',
+    shieldFill: 'rgba(238,255,65,0.15)',
+  },
+  particles: { snow: '#b2fff0', snowOpacity: 0.9, density: 1 },
+  typography: night.typography,
+};
+
+const dawn: Theme = {
+  id: 'dawn',
+  name: 'DAWN',
+  colors: {
+    ...night.colors,
+    sky: '#2a1b3d',
+    skyUpper: '#44318d',
+    skyLower: '#d83f87',
+    overlay: 'rgba(20,0,30,0.45)',
+    accent: '#ffb74d',
+    accentSoft: '#ffe0b2',
+    accentFaint: 'rgba(255,183,77,0.15)',
+    dangerSoft: '#ffab91',
+    panel: '#2e1a3a',
+    panelBorder: '#6a1b9a',
+    tileBase: '#4a148c',
+    tileTop: '#fff3e0',
+    tileSnow: '#f8bbd0',
+    ghost: '#ffe0b2',
+    ghostBorder: '#fff3e0',
+  },
+  particles: { snow: '#fff3e0', snowOpacity: 0.8, density: 0.6 },
+  typography: night.typography,
+};
+
+// Pure black and white with saturated accents, fewer snowflakes and larger type
+const highContrast: Theme = {
+  id: 'highContrast',
+  name: 'HIGH CONTRAST',
+  colors: {
+    sky: '#000',
+    skyUpper: '#000',
+    skyLower: '#000',
+    letterbox: '#000',
+    overlay: 'rgba(0,0,0,0.8)',
+    text: '#fff',
+    textMuted: '#fff',
+    textShadow: 'black',
+    accent: '#ffff00',
+    accentSoft: '#fff',
+    accentFaint: 'rgba(255,255,0,0.2)',
+    danger: '#ff1744',
+    dangerSoft: '#ff1744',
+    success: '#00e676',
+    gold: '#ffff00',
+    highlight: '#ffff00',
+    panel: '#000',
+    panelBorder: '#fff',
+    inputBorder: '#fff',
+    placeholder: '#bdbdbd',
+    tileBase: '#424242',
+    tileTop: '#fff',
+    tileSnow: '#fff',
+    ghost: '#fff',
+    ghostBorder: '#fff',
+    shield: '#00e676',
+    shieldFill: 'rgba(0,230,118,0.25)',
   },
+  particles: { snow: '#fff', snowOpacity: 0.6, density: 0.4 },
+  typography: { fontFamily: 'Minecraft', scale: 1.1, letterSpacing: 1 },
 };
+
+export const THEMES: Record<ThemeId, Theme> = { night, aurora, dawn, highContrast };
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+export const DEFAULT_THEME: ThemeId = 'night';
+
+// Font settings for a style sheet entry, with the theme's type scale and spacing applied
+export function fontStyle(typography: ThemeTypography, size: number, letterSpacing = 0) {
+  return {
+    fontFamily: typography.fontFamily,
+    fontSize: size * typography.scale,
+    letterSpacing: letterSpacing + typography.letterSpacing,
+  };
+}
@@ -0,0 +1,228 @@
+import { MAX_SPEED, PIXELS_PER_METER, SNOWBALL_SIZE, TIME_STEP } from './constants';
+import { createTally } from './summary';
+import type { SimEvent, SimState, SimTally } from './types';
+
+// Landing with less of the snowball than this over the tile counts as landing on the edge
+export const EDGE_LANDING = SNOWBALL_SIZE / 4;
+
+// Totals kept across every run, saved between sessions
+export interface LifetimeStats {
+  runs: number;
+  jumps: number;
+  doubleJumps: number;
+  landings: number;
+  gifts: number;
+  dodges: number;
+  // World units, like cameraX
+  distance: number;
+  ticks: number;
+}
+
+// What one run has done so far, counted from its events as it plays
+export interface RunStats {
+  // The simulation's own tally of the run, for the jumps and top speed
+  tally: SimTally;
+  landings: number;
+  edgeLandings: number;
+  gifts: number;
+  // Gifts collected since the last one that got away
+  giftStreak: number;
+  bestGiftStreak: number;
+  dodges: number;
+  // Where the run started, for play-tests and levels that don't start at 0
+  startX: number;
+  distance: number;
+  // Where the last gift got away, and the furthest the run has gone since one did
+  lastMissX: number;
+  bestCleanDistance: number;
+  ticks: number;
+}
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  // Whether it has to be done within a single run or builds up over all of them
+  scope: 'run' | 'lifetime';
+  goal: number;
+  // How far along the achievement is, out of `goal`; lifetime ones add the run to `lifetime`
+  progress(run: RunStats, lifetime: LifetimeStats): number;
+}
+
+const meters = (distance: number) => Math.floor(distance / PIXELS_PER_METER);
+const seconds = (ticks: number) => Math.floor((ticks * TIME_STEP) / 1000);
+
+export const ACHIEVEMENTS: readonly Achievement[] = [
+  {
+    id: 'top-speed',
+    name: 'TOP SPEED',
+    description: `Reach speed ${MAX_SPEED}`,
+    scope: 'run',
+    goal: MAX_SPEED,
+    progress: run => Math.floor(run.tally.topSpeed),
+  },
+  {
+    id: 'gift-streak',
+    name: 'ON A ROLL',
+    description: 'Collect 5 gifts in a row without missing one',
+    scope: 'run',
+    goal: 5,
+    progress: run => run.bestGiftStreak,
+  },
+  {
+    id: 'long-gift-streak',
+    name: "SANTA'S HELPER",
+    description: 'Collect 15 gifts in a row without missing one',
+    scope: 'run',
+    goal: 15,
+    progress: run => run.bestGiftStreak,
+  },
+  {
+    id: 'survivor',
+    name: 'STAYING POWER',
+    description: 'Survive 2 minutes in one run',
+    scope: 'run',
+    goal: 120,
+    progress: run => seconds(run.ticks),
+  },
+  {
+    id: 'edge-landing',
+    name: 'BY A HAIR',
+    description: "Land with just the snowball's edge on a tile",
+    scope: 'run',
+    goal: 1,
+    progress: run => run.edgeLandings,
+  },
+  {
+    id: 'dodger',
+    name: 'NIMBLE',
+    description: 'Jump 20 hazards in one run',
+    scope: 'run',
+    goal: 20,
+    progress: run => run.dodges,
+  },
+  {
+    id: 'kilometre',
+    name: 'KILOMETRE',
+    description: 'Roll 1000m in one run',
+    scope: 'run',
+    goal: 1000,
+    progress: run => meters(run.distance),
+  },
+  {
+    id: 'double-jumps',
+    name: 'FREQUENT FLYER',
+    description: 'Double jump 50 times',
+    scope: 'lifetime',
+    goal: 50,
+    progress: (run, lifetime) => lifetime.doubleJumps + run.tally.doubleJumps,
+  },
+  {
+    id: 'jumps',
+    name: 'SPRING LOADED',
+    description: 'Jump 1000 times',
+    scope: 'lifetime',
+    goal: 1000,
+    progress: (run, lifetime) => lifetime.jumps + run.tally.jumps,
+  },
+  {
+    id: 'gifts',
+    name: 'GIFT HOARDER',
+    description: 'Collect 100 gifts',
+    scope: 'lifetime',
+    goal: 100,
+    progress: (run, lifetime) => lifetime.gifts + run.gifts,
+  },
+  {
+    id: 'long-haul',
+    name: 'LONG HAUL',
+    description: 'Roll 10000m in total',
+    scope: 'lifetime',
+    goal: 10000,
+    progress: (run, lifetime) => meters(lifetime.distance + run.distance),
+  },
+  {
+    id: 'regular',
+    name: 'REGULAR',
+    description: 'Play 25 runs',
+    scope: 'lifetime',
+    goal: 25,
+    // The run being played counts as soon as it gets going
+    progress: (run, lifetime) => lifetime.runs + (run.ticks > 0 ? 1 : 0),
+  },
+];
+
+export function createLifetimeStats(): LifetimeStats {
+  return { runs: 0, jumps: 0, doubleJumps: 0, landings: 0, gifts: 0, dodges: 0, distance: 0, ticks: 0 };
+}
+
+// `startX` is where the run begins and `tally` the run's SimState.tally; the defaults give a run
+// that hasn't started
+export function createRunStats(startX = 0, tally = createTally()): RunStats {
+  return {
+    tally,
+    landings: 0,
+    edgeLandings: 0,
+    gifts: 0,
+    giftStreak: 0,
+    bestGiftStreak: 0,
+    dodges: 0,
+    startX,
+    distance: 0,
+    lastMissX: startX,
+    bestCleanDistance: 0,
+    ticks: 0,
+  };
+}
+
+// Counts one step: `state` as the step left it and the events it returned
+export function countStep(stats: RunStats, state: SimState, events: readonly SimEvent[]) {
+  stats.ticks++;
+  stats.distance = state.cameraX - stats.startX;
+  stats.bestCleanDistance = Math.max(stats.bestCleanDistance, state.cameraX - stats.lastMissX);
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'landed':
+        stats.landings++;
+        if (event.overlap < EDGE_LANDING) stats.edgeLandings++;
+        break;
+      case 'collected':
+        if (event.kind !== 'gift') break;
+        stats.gifts++;
+        stats.giftStreak++;
+        stats.bestGiftStreak = Math.max(stats.bestGiftStreak, stats.giftStreak);
+        break;
+      case 'missed':
+        if (event.kind !== 'gift') break;
+        stats.giftStreak = 0;
+        stats.lastMissX = state.cameraX;
+        break;
+      case 'dodged':
+        stats.dodges++;
+        break;
+    }
+  }
+}
+
+export function addRunStats(lifetime: LifetimeStats, run: RunStats): LifetimeStats {
+  return {
+    runs: lifetime.runs + 1,
+    jumps: lifetime.jumps + run.tally.jumps,
+    doubleJumps: lifetime.doubleJumps + run.tally.doubleJumps,
+    landings: lifetime.landings + run.landings,
+    gifts: lifetime.gifts + run.gifts,
+    dodges: lifetime.dodges + run.dodges,
+    distance: lifetime.distance + run.distance,
+    ticks: lifetime.ticks + run.ticks,
+  };
+}
+
+// Achievements the run has just earned that weren't already unlocked
+export function findUnlocks(
+  unlocked: Readonly<Record<string, string>>,
+  run: RunStats,
+  lifetime: LifetimeStats,
+): Achievement[] {
+  return ACHIEVEMENTS.filter(achievement => !(achievement.id in unlocked) && achievement.progress(run, lifetime) >= achievement.goal);
+}
@@ -0,0 +1,97 @@
+import { DOUBLE_JUMP_WINDOW, SNOWBALL_SIZE, TIME_STEP } from './constants';
+import type { SimInput, SimState } from './types';
+
+// A benchmark run is a fixed course driven by the autopilot for a fixed time, so reports from
+// different builds and devices measure the same work
+export const BENCHMARK_SEED = 1;
+export const BENCHMARK_DURATION = 30000;
+
+// Frames taking longer than this missed at least one display refresh
+const SLOW_FRAME = TIME_STEP * 1.5;
+
+export interface Benchmark {
+  // Milliseconds between consecutive frames
+  intervals: number[];
+  // Milliseconds spent stepping and drawing inside each frame
+  workTimes: number[];
+  elapsed: number;
+  // Courses started after the autopilot crashed
+  restarts: number;
+}
+
+export interface BenchmarkReport {
+  frames: number;
+  averageFrame: number;
+  p95Frame: number;
+  worstFrame: number;
+  slowFrames: number;
+  averageWork: number;
+  p95Work: number;
+  restarts: number;
+}
+
+export function createBenchmark(): Benchmark {
+  return { intervals: [], workTimes: [], elapsed: 0, restarts: 0 };
+}
+
+export function recordFrame(benchmark: Benchmark, interval: number, workTime: number) {
+  benchmark.intervals.push(interval);
+  benchmark.workTimes.push(workTime);
+  benchmark.elapsed += interval;
+}
+
+function average(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function percentile(values: number[], fraction: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(Math.floor(sorted.length * fraction), sorted.length - 1)];
+}
+
+export function summarizeBenchmark(benchmark: Benchmark): BenchmarkReport {
+  const { intervals, workTimes } = benchmark;
+  return {
+    frames: intervals.length,
+    averageFrame: average(intervals),
+    p95Frame: percentile(intervals, 0.95),
+    worstFrame: intervals.length === 0 ? 0 : Math.max(...intervals),
+    slowFrames: intervals.filter(interval => interval > SLOW_FRAME).length,
+    averageWork: average(workTimes),
+    p95Work: percentile(workTimes, 0.95),
+    restarts: benchmark.restarts,
+  };
+}
+
+/**
+ * Plays well enough to keep the course scrolling: jumps at tile edges and ahead of hazards,
+ * and double-jumps when the next landing looks out of reach. It only reads the state, so the
+ * same seed always plays out the same way.
+ */
+export function autopilotInput(state: SimState): SimInput {
+  const front = state.cameraX + SNOWBALL_SIZE / 2;
+
+  if (state.isOnGround) {
+    const ground = state.tiles.find(t => t.id === state.groundTileId);
+    if (!ground) return { jump: false };
+    const edge = ground.x + ground.width / 2 - front;
+    const hazardAhead = state.hazards.some(h =>
+      !h.dodged &&
+      h.tileId === ground.id &&
+      h.x + h.width / 2 > state.cameraX - SNOWBALL_SIZE / 2 &&
+      h.x - h.width / 2 - front < state.speed * 14,
+    );
+    return { jump: edge < state.speed * 3 || hazardAhead };
+  }
+
+  // The second tap has to land inside the double-jump window, so decide just before it closes
+  if (!state.hasDoubleJump || state.lastTapTick === null || state.tick - state.lastTapTick !== DOUBLE_JUMP_WINDOW - 4) {
+    return { jump: false };
+  }
+  const next = state.tiles.find(t => t.x - t.width / 2 > state.cameraX - SNOWBALL_SIZE / 2);
+  if (!next) return { jump: false };
+  const gap = next.x - next.width / 2 - state.cameraX;
+  const rise = state.snowballY + SNOWBALL_SIZE - next.surfaceY;
+  return { jump: gap > state.speed * 24 || rise > 60 };
+}
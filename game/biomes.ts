@@ -0,0 +1,107 @@
+import { PIXELS_PER_METER } from './constants';
+import type { TileTheme } from './shop';
+
+// Biomes are scenery only: the simulation never reads them, so courses and replays are the same
+// in every biome. They follow one another by distance, and the run starts over at the first
+// biome every BIOME_CYCLE metres.
+
+export type BiomeId = 'forest' | 'frozenLake' | 'mountainPass';
+export type SceneryKind = 'mountains' | 'pines' | 'village' | 'lake';
+
+export interface SceneryLayer {
+  kind: SceneryKind;
+  // Share of the camera's movement the layer scrolls by, small for the far distance
+  parallax: number;
+  // World y the layer's shapes stand on; below it the layer is filled to the bottom
+  baseline: number;
+  // Height of the tallest shape
+  height: number;
+  color: string;
+}
+
+export interface Biome {
+  id: BiomeId;
+  name: string;
+  // Metres into each cycle at which the biome takes over
+  from: number;
+  // Laid over the theme's sky
+  skyTint: string;
+  moon: string;
+  // Back to front
+  layers: readonly SceneryLayer[];
+  // Normal tiles, while the player's tiles follow the theme
+  tiles?: Pick<TileTheme, 'base' | 'top' | 'snow'>;
+}
+
+export const BIOME_CYCLE = 1500;
+// Metres over which one biome's scenery fades into the next
+export const BIOME_BLEND = 40;
+
+export const BIOMES: readonly Biome[] = [
+  {
+    id: 'forest',
+    name: 'PINE FOREST',
+    from: 0,
+    skyTint: '#0d1b2a',
+    moon: '#fff8e1',
+    layers: [
+      { kind: 'mountains', parallax: 0.05, baseline: 620, height: 200, color: '#141a3a' },
+      { kind: 'pines', parallax: 0.15, baseline: 650, height: 110, color: '#0f2a24' },
+      { kind: 'village', parallax: 0.3, baseline: 690, height: 60, color: '#1c1530' },
+    ],
+  },
+  {
+    id: 'frozenLake',
+    name: 'FROZEN LAKE',
+    from: 400,
+    skyTint: '#0a2540',
+    moon: '#e1f5fe',
+    layers: [
+      { kind: 'mountains', parallax: 0.05, baseline: 600, height: 140, color: '#1a2a4a' },
+      { kind: 'lake', parallax: 0.15, baseline: 610, height: 0, color: '#203a5c' },
+      { kind: 'pines', parallax: 0.3, baseline: 690, height: 70, color: '#0f2a34' },
+    ],
+    tiles: { base: '#0d47a1', top: '#e1f5fe', snow: '#b3e5fc' },
+  },
+  {
+    id: 'mountainPass',
+    name: 'MOUNTAIN PASS',
+    from: 900,
+    skyTint: '#1a1030',
+    moon: '#ffe0b2',
+    layers: [
+      { kind: 'mountains', parallax: 0.05, baseline: 640, height: 340, color: '#1d1a38' },
+      { kind: 'mountains', parallax: 0.15, baseline: 660, height: 200, color: '#262240' },
+      { kind: 'pines', parallax: 0.3, baseline: 700, height: 80, color: '#151c2c' },
+    ],
+    tiles: { base: '#37474f', top: '#eceff1', snow: '#cfd8dc' },
+  },
+];
+
+// How far into the current cycle world position `x` is, in metres
+function cycleMeters(x: number): number {
+  const meters = x / PIXELS_PER_METER;
+  return ((meters % BIOME_CYCLE) + BIOME_CYCLE) % BIOME_CYCLE;
+}
+
+// Index in BIOMES of the biome at world position `x`
+export function biomeIndexAt(x: number): number {
+  const meters = cycleMeters(x);
+  let index = 0;
+  while (index + 1 < BIOMES.length && BIOMES[index + 1].from <= meters) index++;
+  return index;
+}
+
+export function biomeAt(x: number): Biome {
+  return BIOMES[biomeIndexAt(x)];
+}
+
+/**
+ * How far world position `x` is through the fade from its biome into the next one, from 0 (not
+ * started) to 1. The fade takes up the last BIOME_BLEND metres of each biome.
+ */
+export function biomeTransition(x: number): number {
+  const index = biomeIndexAt(x);
+  const end = index + 1 < BIOMES.length ? BIOMES[index + 1].from : BIOME_CYCLE;
+  return Math.min(Math.max((cycleMeters(x) - (end - BIOME_BLEND)) / BIOME_BLEND, 0), 1);
+}
@@ -0,0 +1,52 @@
+export const TARGET_FPS = 60;
+export const TIME_STEP = 1000 / TARGET_FPS;
+// Longest frame the loop catches up on; time beyond this (a hitch, a stall) is dropped rather
+// than simulated in one burst
+export const MAX_FRAME_TIME = 100;
+
+export const GRAVITY = 0.6;
+export const JUMP_FORCE = -14;
+export const DOUBLE_JUMP_FORCE = -11;
+// Releasing the jump early caps the rise at this velocity, so a quick tap is a short hop
+export const JUMP_RELEASE_VELOCITY = -7;
+export const TERMINAL_VELOCITY = 20;
+export const INITIAL_SPEED = 3.5;
+export const SPEED_INCREMENT = 0.0008;
+export const MAX_SPEED = 9;
+
+// Runs take place in a fixed virtual world, in world units, which the screen scales to fit. Every
+// device plays and records the same course, whatever its size or orientation.
+export const WORLD_WIDTH = 450;
+export const WORLD_HEIGHT = 900;
+
+export const SNOWBALL_SIZE = 40;
+
+export const TILE_WIDTHS = [120, 180, 250, 400];
+
+// Surface heights, relative to the world's base ground line (negative is higher)
+export const SURFACE_MIN_OFFSET = -200;
+export const SURFACE_MAX_OFFSET = 60;
+// Stair steps are taller than LANDING_TOLERANCE so every step needs a jump
+export const STAIR_STEP = 45;
+export const LEDGE_RISE = 110;
+export const DROP_SIZES = [60, 100, 140];
+
+export const START_TILE_WIDTH = 600;
+export const INITIAL_TILE_COUNT = 5;
+export const COLLECTIBLE_CHANCE = 0.3;
+export const COLLECTIBLE_SCORE = 10;
+// Horizontal distance from the snowball's centre within which a collectible is picked up
+export const PICKUP_RANGE = 40;
+export const MAX_PARTICLES = 50;
+
+export const COYOTE_TIME = 8;
+export const JUMP_BUFFER_TIME = 6;
+export const LANDING_TOLERANCE = 30;
+// Second tap must follow the first within 300ms (18 ticks at 60 FPS)
+export const DOUBLE_JUMP_WINDOW = Math.round(300 / TIME_STEP);
+
+// Bump whenever a rule change would make old replays play back differently
+export const SIM_VERSION = 7;
+
+// HUD and stats report distance in metres of cameraX travel
+export const PIXELS_PER_METER = 10;
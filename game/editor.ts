@@ -0,0 +1,225 @@
+import { COLLECTIBLE_SCORE, SURFACE_MAX_OFFSET, SURFACE_MIN_OFFSET } from './constants';
+import { HAZARD_SPECS } from './hazards';
+import {
+  DEFAULT_COLLECTIBLE_HEIGHT,
+  DEFAULT_MOTION_PERIOD,
+  HAZARD_TILE_TYPES,
+  LEVEL_FORMAT,
+  TILE_TYPES,
+  type Level,
+  type LevelTile,
+} from './level';
+import { MOVE_AMPLITUDE } from './tiles';
+
+// Editing works like a timeline: growing, shrinking, inserting or deleting a tile slides
+// everything after it along, so the rest of the course keeps its shape.
+
+// Every edit lands on this grid so nudges add up to round numbers in the exported file
+export const EDITOR_GRID = 10;
+export const MIN_TILE_WIDTH = 60;
+export const MAX_TILE_WIDTH = 1200;
+const NEW_TILE_WIDTH = 300;
+const NEW_TILE_GAP = 150;
+// The finish banner sits this far in from the end of the last tile
+const FINISH_INSET = 40;
+const MIN_COLLECTIBLE_HEIGHT = 40;
+const MAX_COLLECTIBLE_HEIGHT = 260;
+// Rolling along scores a point for every this many units covered
+const DISTANCE_PER_POINT = 100;
+
+export type EditorSelection = { kind: 'tile' | 'collectible'; index: number } | null;
+
+function snap(value: number): number {
+  return Math.round(value / EDITOR_GRID) * EDITOR_GRID;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function tileEnd(tile: LevelTile): number {
+  return tile.x + tile.width;
+}
+
+function isOnTile(tile: LevelTile, x: number): boolean {
+  return x >= tile.x && x <= tileEnd(tile);
+}
+
+// Index of the tile at `x`, or of the last tile before it when `x` is over a gap
+export function tileIndexAt(level: Level, x: number): number {
+  let index = 0;
+  level.tiles.forEach((tile, i) => {
+    if (tile.x <= x) index = i;
+  });
+  return index;
+}
+
+// Moves the tiles from `fromIndex` on, and everything standing on them, along by `dx`
+function shiftTiles(level: Level, fromIndex: number, dx: number): Level {
+  const shift = <T extends { x: number }>(item: T): T =>
+    tileIndexAt(level, item.x) >= fromIndex ? { ...item, x: item.x + dx } : item;
+  return {
+    ...level,
+    tiles: level.tiles.map((tile, i) => (i >= fromIndex ? { ...tile, x: tile.x + dx } : tile)),
+    collectibles: level.collectibles.map(shift),
+    hazards: level.hazards.map(shift),
+  };
+}
+
+// Drops hazards the tile beneath can no longer hold after an edit
+function withSupportedHazards(level: Level): Level {
+  const hazards = level.hazards.filter(({ x, kind }) => {
+    const halfWidth = HAZARD_SPECS[kind].width / 2;
+    const tile = level.tiles.find(t => isOnTile(t, x));
+    return (
+      !!tile &&
+      HAZARD_TILE_TYPES.includes(tile.type) &&
+      x - halfWidth >= tile.x &&
+      x + halfWidth <= tileEnd(tile)
+    );
+  });
+  return hazards.length === level.hazards.length ? level : { ...level, hazards };
+}
+
+export function createDraft(): Level {
+  return finalizeDraft({
+    format: LEVEL_FORMAT,
+    id: 'untitled',
+    name: 'Untitled',
+    description: '',
+    finishX: 0,
+    stars: [0, 0, 0],
+    tiles: [{ x: -300, width: 800, surface: 0, type: 'normal' }],
+    collectibles: [],
+    hazards: [],
+  });
+}
+
+/**
+ * Fills in everything the editor derives rather than asks for: the id from the name, the finish
+ * line at the end of the last tile, and star scores from the course length and gifts on offer.
+ */
+export function finalizeDraft(level: Level): Level {
+  const name = level.name.trim() || 'Untitled';
+  const id = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'untitled';
+  const last = level.tiles[level.tiles.length - 1];
+  const finishX = Math.max(tileEnd(last) - FINISH_INSET, EDITOR_GRID);
+
+  // Two stars want the distance and half the gifts, three want every gift
+  const distanceScore = Math.floor(finishX / DISTANCE_PER_POINT);
+  const giftScore = level.collectibles.filter(c => c.kind === 'gift').length * COLLECTIBLE_SCORE;
+  const stars: [number, number, number] = [0, distanceScore + Math.floor(giftScore / 2), distanceScore + giftScore];
+
+  return { ...level, id, name, finishX, stars };
+}
+
+// Inserts a tile after the one at `x`, sliding the rest of the course along to make room
+export function insertTile(level: Level, x: number): { level: Level; index: number } {
+  const index = tileIndexAt(level, x) + 1;
+  const prev = level.tiles[index - 1];
+  const tile: LevelTile = {
+    x: tileEnd(prev) + NEW_TILE_GAP,
+    width: NEW_TILE_WIDTH,
+    surface: prev.surface,
+    type: 'normal',
+  };
+  const shifted = shiftTiles(level, index, NEW_TILE_WIDTH + NEW_TILE_GAP);
+  const tiles = [...shifted.tiles];
+  tiles.splice(index, 0, tile);
+  return { level: { ...shifted, tiles }, index };
+}
+
+export function resizeTile(level: Level, index: number, dWidth: number): Level {
+  const tile = level.tiles[index];
+  // The start tile has to keep reaching past the start line
+  const minWidth = index === 0 ? Math.max(MIN_TILE_WIDTH, snap(-tile.x) + MIN_TILE_WIDTH) : MIN_TILE_WIDTH;
+  const width = clamp(snap(tile.width + dWidth), minWidth, MAX_TILE_WIDTH);
+  const dx = width - tile.width;
+  if (dx === 0) return level;
+
+  // Gifts past a shrunken end stay on the tile rather than floating over the gap
+  const collectibles = level.collectibles.map(c =>
+    tileIndexAt(level, c.x) === index ? { ...c, x: Math.min(c.x, tile.x + width) } : c,
+  );
+  const shifted = shiftTiles({ ...level, collectibles }, index + 1, dx);
+  const tiles = [...shifted.tiles];
+  tiles[index] = { ...tile, width };
+  return withSupportedHazards({ ...shifted, tiles });
+}
+
+// Widens or narrows the gap in front of a tile; the start tile has none
+export function moveTile(level: Level, index: number, dx: number): Level {
+  if (index === 0) return level;
+  const tile = level.tiles[index];
+  const gap = tile.x - tileEnd(level.tiles[index - 1]);
+  const move = Math.max(snap(gap + dx), 0) - gap;
+  return move === 0 ? level : shiftTiles(level, index, move);
+}
+
+export function raiseTile(level: Level, index: number, dSurface: number): Level {
+  const tile = level.tiles[index];
+  const surface = clamp(snap(tile.surface + dSurface), SURFACE_MIN_OFFSET, SURFACE_MAX_OFFSET);
+  if (surface === tile.surface) return level;
+  const tiles = [...level.tiles];
+  tiles[index] = { ...tile, surface };
+  return { ...level, tiles };
+}
+
+// Steps a tile through the tile types; the start tile always stays normal
+export function cycleTileType(level: Level, index: number): Level {
+  if (index === 0) return level;
+  const { motion: _motion, ...tile } = level.tiles[index];
+  const type = TILE_TYPES[(TILE_TYPES.indexOf(tile.type) + 1) % TILE_TYPES.length];
+  const next: LevelTile = { ...tile, type };
+  if (type === 'moving') {
+    next.motion = { axis: 'x', amplitude: MOVE_AMPLITUDE, period: DEFAULT_MOTION_PERIOD, phase: 0 };
+  }
+  const tiles = [...level.tiles];
+  tiles[index] = next;
+  return withSupportedHazards({ ...level, tiles });
+}
+
+// Removes a tile with everything on it and closes up the space it took
+export function deleteTile(level: Level, index: number): Level {
+  if (index === 0) return level;
+  const tile = level.tiles[index];
+  const next = level.tiles[index + 1];
+  const remaining: Level = {
+    ...level,
+    tiles: level.tiles.filter((_, i) => i !== index),
+    collectibles: level.collectibles.filter(c => !isOnTile(tile, c.x)),
+    hazards: level.hazards.filter(h => !isOnTile(tile, h.x)),
+  };
+  return next ? shiftTiles(remaining, index, tile.x - next.x) : remaining;
+}
+
+// Places a gift over the tile at `x`; returns null when `x` is over a gap
+export function addGift(level: Level, x: number): { level: Level; index: number } | null {
+  const giftX = snap(x);
+  if (!level.tiles.some(tile => isOnTile(tile, giftX))) return null;
+  const collectibles = [...level.collectibles, { x: giftX, kind: 'gift' as const, height: DEFAULT_COLLECTIBLE_HEIGHT }];
+  return { level: { ...level, collectibles }, index: collectibles.length - 1 };
+}
+
+// Nudges a collectible along its tile or up and down; it never leaves the tile it is over
+export function moveCollectible(level: Level, index: number, dx: number, dHeight: number): Level {
+  const collectible = level.collectibles[index];
+  const tile = level.tiles.find(t => isOnTile(t, collectible.x));
+  if (!tile) return level;
+  const collectibles = [...level.collectibles];
+  collectibles[index] = {
+    ...collectible,
+    x: clamp(snap(collectible.x + dx), tile.x, tileEnd(tile)),
+    height: clamp(snap(collectible.height + dHeight), MIN_COLLECTIBLE_HEIGHT, MAX_COLLECTIBLE_HEIGHT),
+  };
+  return { ...level, collectibles };
+}
+
+export function deleteCollectible(level: Level, index: number): Level {
+  return { ...level, collectibles: level.collectibles.filter((_, i) => i !== index) };
+}
+
+// Distance from the start line to the end of the course
+export function courseLength(level: Level): number {
+  return tileEnd(level.tiles[level.tiles.length - 1]);
+}
@@ -0,0 +1,48 @@
+import { findLevel } from './levels';
+import { canPlayReplay, createCursor, nextReplayInput, type Replay, type ReplayCursor } from './replay';
+import { createInitialState, createWorld, step } from './simulation';
+import type { SimState, WorldConfig } from './types';
+
+// A ghost is a second simulation driven by a recorded replay, stepped in lockstep with the live run
+export interface Ghost {
+  replay: Replay;
+  sim: SimState;
+  cursor: ReplayCursor;
+}
+
+// Ghosts only make sense on the exact same course, so the seed, viewport and rules must all match
+export function canRaceGhost(replay: Replay, seed: number, world: WorldConfig): boolean {
+  return (
+    canPlayReplay(replay) &&
+    replay.seed === seed &&
+    replay.world.width === world.width &&
+    replay.world.height === world.height
+  );
+}
+
+export function createGhost(replay: Replay): Ghost {
+  return {
+    replay,
+    sim: createInitialState(
+      createWorld(replay.world.width, replay.world.height),
+      replay.seed,
+      replay.levelId !== undefined ? findLevel(replay.levelId) : undefined,
+    ),
+    cursor: createCursor(replay),
+  };
+}
+
+// Catches the ghost up to `tick`; a dead ghost stays where it fell, a finished one at the line
+export function advanceGhost(ghost: Ghost, tick: number) {
+  const { sim, cursor } = ghost;
+  while (sim.tick < tick && !sim.isDead && !sim.finished) {
+    step(sim, nextReplayInput(cursor, sim.tick));
+  }
+}
+
+// Positive when the live run is ahead of the ghost: where the ghost is now while it's still
+// running, or how far its whole run went once it has fallen or finished
+export function ghostDistanceDelta(ghost: Ghost, cameraX: number): number {
+  const { sim } = ghost;
+  return cameraX - (sim.isDead || sim.finished ? ghost.replay.distance : sim.cameraX);
+}
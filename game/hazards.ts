@@ -0,0 +1,121 @@
+import { SNOWBALL_SIZE } from './constants';
+import { nextFloat, pick } from './random';
+import { scoreDodge } from './scoring';
+import type { HazardData, HazardKind, SimEvent, SimState, TileData } from './types';
+
+interface HazardSpec {
+  width: number;
+  height: number;
+  // Top edge relative to the tile surface (negative is above it)
+  offsetY: number;
+  // Narrower tiles don't leave room to land, react and clear the hazard
+  minTileWidth: number;
+  dodgeScore: number;
+}
+
+export const HAZARD_SPECS: Record<HazardKind, HazardSpec> = {
+  // Low spike: any jump clears it
+  iceSpike: { width: 30, height: 30, offsetY: -30, minTileWidth: 250, dodgeScore: 5 },
+  // Tall enough that a late jump clips it
+  snowman: { width: 40, height: 70, offsetY: -70, minTileWidth: 250, dodgeScore: 10 },
+  // Hangs just above rolling height: stay on the ground to pass underneath
+  icicle: { width: 36, height: 80, offsetY: -SNOWBALL_SIZE - 100, minTileWidth: 250, dodgeScore: 10 },
+  // Starts rolling toward you once you land on its tile
+  log: { width: 50, height: 28, offsetY: -28, minTileWidth: 400, dodgeScore: 15 },
+};
+
+const LOG_SPEED = 2;
+// Hazards keep this much tile clear at each end for landing and taking off
+const EDGE_CLEARANCE = 80;
+// Forgiving hitboxes: the snowball's box is shrunk by this much on each side
+const HIT_INSET = 6;
+// Passing a hazard with no more than this gap between the hitboxes is a near miss
+export const NEAR_MISS_CLEARANCE = 12;
+
+export function hazardChance(cameraX: number): number {
+  return Math.min(0.15 + cameraX / 20000, 0.5);
+}
+
+/**
+ * Tries to place a hazard on a freshly spawned tile. Only kinds whose spec fits the tile are
+ * considered, and every kind sits in the middle of the tile so the run-up and landing stay clear.
+ * Tiles below their predecessor are skipped: the long fall onto them can carry you past the middle.
+ */
+export function spawnHazard(state: SimState, tile: TileData, prev: TileData): HazardData | null {
+  if (nextFloat(state.rng) >= hazardChance(state.cameraX)) return null;
+  if (tile.surfaceY > prev.surfaceY) return null;
+  // Special tiles already ask enough of the player
+  if (tile.type !== 'normal') return null;
+
+  const kinds = (Object.keys(HAZARD_SPECS) as HazardKind[]).filter(
+    kind => tile.width >= HAZARD_SPECS[kind].minTileWidth,
+  );
+  if (kinds.length === 0) return null;
+
+  const kind = pick(state.rng, kinds);
+  // Logs start at the far end of their tile and roll back toward the leading edge
+  const x = kind === 'log' ? tile.x + tile.width / 2 - EDGE_CLEARANCE / 2 : tile.x;
+  return placeHazard(state, kind, tile, x);
+}
+
+// Adds a hazard of `kind` standing (or hanging) over `tile` with its centre at `x`
+export function placeHazard(state: SimState, kind: HazardKind, tile: TileData, x: number): HazardData {
+  const spec = HAZARD_SPECS[kind];
+  const hazard: HazardData = {
+    id: state.nextHazardId++,
+    kind,
+    tileId: tile.id,
+    x,
+    y: tile.surfaceY + spec.offsetY,
+    width: spec.width,
+    height: spec.height,
+    minX: tile.x - tile.width / 2 + spec.width / 2,
+    rolling: false,
+    dodged: false,
+    grazed: false,
+  };
+  state.hazards.push(hazard);
+  return hazard;
+}
+
+// Returns the kind of hazard the snowball hit, if any
+export function updateHazards(state: SimState, events: SimEvent[]): HazardKind | null {
+  const { width } = state.world;
+  state.hazards = state.hazards.filter(h => h.x + h.width / 2 > state.cameraX - width);
+
+  const ballLeft = state.cameraX - SNOWBALL_SIZE / 2 + HIT_INSET;
+  const ballRight = state.cameraX + SNOWBALL_SIZE / 2 - HIT_INSET;
+  const ballTop = state.snowballY + HIT_INSET;
+  const ballBottom = state.snowballY + SNOWBALL_SIZE - HIT_INSET;
+
+  for (const hazard of state.hazards) {
+    if (hazard.kind === 'log') {
+      if (!hazard.rolling && state.isOnGround && state.cameraX >= hazard.minX - EDGE_CLEARANCE) {
+        hazard.rolling = true;
+      }
+      if (hazard.rolling && hazard.x > hazard.minX) {
+        hazard.x = Math.max(hazard.x - LOG_SPEED, hazard.minX);
+      }
+    }
+
+    if (hazard.dodged) continue;
+
+    const left = hazard.x - hazard.width / 2;
+    const right = hazard.x + hazard.width / 2;
+    const overlaps =
+      ballRight > left && ballLeft < right && ballBottom > hazard.y && ballTop < hazard.y + hazard.height;
+    if (overlaps && state.invulnerableTicks === 0) return hazard.kind;
+    if (!overlaps) {
+      const gap = Math.max(left - ballRight, ballLeft - right, hazard.y - ballBottom, ballTop - (hazard.y + hazard.height));
+      if (gap <= NEAR_MISS_CLEARANCE) hazard.grazed = true;
+    }
+
+    if (right < ballLeft) {
+      hazard.dodged = true;
+      events.push({ type: 'dodged', hazardId: hazard.id, kind: hazard.kind, nearMiss: hazard.grazed });
+      scoreDodge(state, events, HAZARD_SPECS[hazard.kind].dodgeScore, hazard.x, hazard.y);
+    }
+  }
+
+  return null;
+}
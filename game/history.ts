@@ -0,0 +1,75 @@
+import { TIME_STEP } from './constants';
+import { step } from './simulation';
+import type { SimInput, SimState } from './types';
+
+// How much of the run an instant replay can show
+export const HISTORY_TICKS = Math.round(3000 / TIME_STEP);
+// Ticks between snapshots; anything in between is re-simulated from the inputs
+const KEYFRAME_INTERVAL = 30;
+
+/**
+ * A rolling record of the last few seconds of a run. Rather than a copy of the state every tick
+ * it keeps a snapshot every KEYFRAME_INTERVAL ticks plus the input fed to each step; the
+ * simulation is deterministic, so stepping a snapshot with those inputs rebuilds any tick.
+ */
+export interface StateHistory {
+  keyframes: SimState[];
+  // Input for every tick from the first keyframe on
+  inputs: SimInput[];
+}
+
+// A copy of the run stepping forward from a snapshot towards `endTick`
+export interface Rewind {
+  sim: SimState;
+  inputs: SimInput[];
+  firstTick: number;
+  endTick: number;
+}
+
+export function createHistory(): StateHistory {
+  return { keyframes: [], inputs: [] };
+}
+
+// SimState is plain data all the way down, so a JSON round trip is a full deep copy
+function snapshot(state: SimState): SimState {
+  return JSON.parse(JSON.stringify(state));
+}
+
+// Call with the state and input of every step, before the step is taken
+export function recordHistory(history: StateHistory, state: SimState, input: SimInput) {
+  if (state.tick % KEYFRAME_INTERVAL === 0 || history.keyframes.length === 0) {
+    history.keyframes.push(snapshot(state));
+    // Drop the oldest snapshot once the next one alone covers the whole window
+    if (history.keyframes.length > 2 && state.tick - history.keyframes[1].tick >= HISTORY_TICKS) {
+      const dropped = history.keyframes.shift()!;
+      history.inputs.splice(0, history.keyframes[0].tick - dropped.tick);
+    }
+  }
+  history.inputs.push(input);
+}
+
+/**
+ * Starts a rewind at the latest snapshot that still shows the last `HISTORY_TICKS` ticks before
+ * `endTick`, or the earliest one there is. Returns null when nothing was recorded.
+ */
+export function createRewind(history: StateHistory, endTick: number): Rewind | null {
+  const { keyframes } = history;
+  if (keyframes.length === 0) return null;
+  let start = 0;
+  while (start + 1 < keyframes.length && keyframes[start + 1].tick <= endTick - HISTORY_TICKS) start++;
+  const firstTick = keyframes[0].tick;
+  return {
+    sim: snapshot(keyframes[start]),
+    inputs: history.inputs,
+    firstTick,
+    endTick,
+  };
+}
+
+// Steps the rewind once; false once it has reached its end
+export function stepRewind(rewind: Rewind): boolean {
+  const { sim } = rewind;
+  if (sim.tick >= rewind.endTick || sim.isDead || sim.finished) return false;
+  step(sim, rewind.inputs[sim.tick - rewind.firstTick] ?? { jump: false });
+  return true;
+}
@@ -0,0 +1,51 @@
+import type { SimInput } from './types';
+
+// Every device (touch, keyboard, gamepad) boils down to the jump control going down or up. Actions
+// are stamped with the time they happened and handed to the fixed step covering that moment, so a
+// press lands on the same tick at 30 FPS as at 120.
+
+export type InputActionType = 'press' | 'release';
+
+export interface InputAction {
+  type: InputActionType;
+  // Milliseconds on the `performance.now()` clock
+  time: number;
+}
+
+export interface InputQueue {
+  actions: InputAction[];
+  // Whether the control is down, so a device can't release what it never pressed
+  held: boolean;
+}
+
+export function createInputQueue(): InputQueue {
+  return { actions: [], held: false };
+}
+
+export function pushInput(queue: InputQueue, type: InputActionType, time: number) {
+  if ((type === 'press') === queue.held) return;
+  queue.held = type === 'press';
+  queue.actions.push({ type, time });
+}
+
+export function clearInput(queue: InputQueue) {
+  queue.actions = [];
+  queue.held = false;
+}
+
+/**
+ * Takes the actions that happened up to `until` as the input for one step. A release taken in
+ * the same step as its press waits for the next one, so even the quickest tap gets off the ground.
+ */
+export function takeStepInput(queue: InputQueue, until: number): SimInput {
+  const input: SimInput = { jump: false, release: false };
+  while (queue.actions.length > 0 && queue.actions[0].time <= until) {
+    const action = queue.actions[0];
+    if (action.type === 'release' && input.jump) break;
+    if (action.type === 'press' && input.release) break;
+    queue.actions.shift();
+    if (action.type === 'press') input.jump = true;
+    else input.release = true;
+  }
+  return input;
+}
@@ -0,0 +1,292 @@
+import { SNOWBALL_SIZE, SURFACE_MAX_OFFSET, SURFACE_MIN_OFFSET } from './constants';
+import { HAZARD_SPECS, placeHazard } from './hazards';
+import { POWER_UP_KINDS } from './powerups';
+import { MOVE_AMPLITUDE, createCrumble } from './tiles';
+import type { CollectibleKind, HazardKind, SimState, TileData, TileType } from './types';
+
+export const LEVEL_FORMAT = 1;
+
+export const TILE_TYPES: readonly TileType[] = ['normal', 'crumbling', 'icy', 'bouncy', 'moving'];
+const COLLECTIBLE_KINDS: readonly CollectibleKind[] = ['gift', ...POWER_UP_KINDS];
+const HAZARD_KINDS = Object.keys(HAZARD_SPECS) as HazardKind[];
+// Hazards don't ride moving or collapsing tiles, and a snowdrift leaves no room to clear one
+export const HAZARD_TILE_TYPES: readonly TileType[] = ['normal', 'icy'];
+
+export const DEFAULT_MOTION_PERIOD = 180;
+export const DEFAULT_COLLECTIBLE_HEIGHT = 70;
+
+export interface LevelMotion {
+  axis: 'x' | 'y';
+  amplitude: number;
+  // Ticks per full oscillation
+  period: number;
+  phase: number;
+}
+
+export interface LevelTile {
+  // Left edge, in world units from the start line
+  x: number;
+  width: number;
+  // Surface height relative to the world's base ground line (negative is higher)
+  surface: number;
+  type: TileType;
+  motion?: LevelMotion;
+}
+
+export interface LevelCollectible {
+  x: number;
+  kind: CollectibleKind;
+  // How far above the surface of the tile beneath it the collectible floats
+  height: number;
+}
+
+export interface LevelHazard {
+  x: number;
+  kind: HazardKind;
+}
+
+/**
+ * A hand-authored course. Positions are world units along the course; heights are relative to
+ * the ground line so a level plays the same on any screen size.
+ */
+export interface Level {
+  format: number;
+  id: string;
+  name: string;
+  description: string;
+  finishX: number;
+  // Minimum scores for one, two and three stars; stars are only awarded for finishing
+  stars: [number, number, number];
+  tiles: LevelTile[];
+  collectibles: LevelCollectible[];
+  hazards: LevelHazard[];
+}
+
+export class LevelFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LevelFormatError';
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function asObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new LevelFormatError(`${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function asList(value: unknown, path: string): unknown[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new LevelFormatError(`${path} must be a list`);
+  return value;
+}
+
+function tileAt(tiles: LevelTile[], x: number): LevelTile | undefined {
+  return tiles.find(tile => x >= tile.x && x <= tile.x + tile.width);
+}
+
+function validateMotion(value: unknown, path: string): LevelMotion {
+  const raw = value === undefined ? {} : asObject(value, path);
+  const axis = raw.axis ?? 'x';
+  if (axis !== 'x' && axis !== 'y') throw new LevelFormatError(`${path}.axis must be "x" or "y"`);
+  const amplitude = raw.amplitude ?? MOVE_AMPLITUDE;
+  if (!isFiniteNumber(amplitude) || amplitude <= 0) {
+    throw new LevelFormatError(`${path}.amplitude must be a positive number`);
+  }
+  const period = raw.period ?? DEFAULT_MOTION_PERIOD;
+  if (!Number.isInteger(period) || (period as number) <= 0) {
+    throw new LevelFormatError(`${path}.period must be a positive whole number of ticks`);
+  }
+  const phase = raw.phase ?? 0;
+  if (!isFiniteNumber(phase)) throw new LevelFormatError(`${path}.phase must be a number`);
+  return { axis, amplitude, period: period as number, phase };
+}
+
+function validateTile(value: unknown, path: string): LevelTile {
+  const raw = asObject(value, path);
+  if (!isFiniteNumber(raw.x)) throw new LevelFormatError(`${path}.x must be a number`);
+  if (!isFiniteNumber(raw.width) || raw.width <= 0) {
+    throw new LevelFormatError(`${path}.width must be a positive number`);
+  }
+  const surface = raw.surface ?? 0;
+  if (!isFiniteNumber(surface) || surface < SURFACE_MIN_OFFSET || surface > SURFACE_MAX_OFFSET) {
+    throw new LevelFormatError(
+      `${path}.surface must be a number from ${SURFACE_MIN_OFFSET} to ${SURFACE_MAX_OFFSET}`,
+    );
+  }
+  const type = raw.type ?? 'normal';
+  if (!TILE_TYPES.includes(type as TileType)) {
+    throw new LevelFormatError(`${path}.type must be one of ${TILE_TYPES.join(', ')}`);
+  }
+  if (raw.motion !== undefined && type !== 'moving') {
+    throw new LevelFormatError(`${path}.motion is only allowed on moving tiles`);
+  }
+
+  const tile: LevelTile = { x: raw.x, width: raw.width, surface, type: type as TileType };
+  if (type === 'moving') tile.motion = validateMotion(raw.motion, `${path}.motion`);
+  return tile;
+}
+
+function validateStars(value: unknown): [number, number, number] {
+  if (
+    !Array.isArray(value) ||
+    value.length !== 3 ||
+    !value.every(score => isFiniteNumber(score) && score >= 0)
+  ) {
+    throw new LevelFormatError('stars must be a list of three non-negative scores');
+  }
+  if (value[1] < value[0] || value[2] < value[1]) {
+    throw new LevelFormatError('stars must be in increasing order');
+  }
+  return [value[0], value[1], value[2]];
+}
+
+/**
+ * Checks a decoded level file and fills in defaults. Throws LevelFormatError naming the first
+ * problem found, with a path such as `tiles[3].width` so authors can find it.
+ */
+export function validateLevel(data: unknown): Level {
+  const raw = asObject(data, 'Level');
+
+  if (raw.format !== LEVEL_FORMAT) {
+    throw new LevelFormatError(`Unsupported level format: ${String(raw.format)}`);
+  }
+  if (typeof raw.id !== 'string' || !/^[a-z0-9-]+$/.test(raw.id)) {
+    throw new LevelFormatError('id must be lowercase letters, digits and dashes');
+  }
+  if (typeof raw.name !== 'string' || raw.name.trim().length === 0) {
+    throw new LevelFormatError('name must be a non-empty string');
+  }
+  const description = raw.description ?? '';
+  if (typeof description !== 'string') throw new LevelFormatError('description must be a string');
+
+  const tiles = asList(raw.tiles, 'tiles').map((tile, i) => validateTile(tile, `tiles[${i}]`));
+  if (tiles.length === 0) throw new LevelFormatError('tiles must contain at least one tile');
+  for (let i = 1; i < tiles.length; i++) {
+    if (tiles[i].x < tiles[i - 1].x + tiles[i - 1].width) {
+      throw new LevelFormatError(`tiles[${i}] overlaps tiles[${i - 1}]; tiles must be in order with gaps between`);
+    }
+  }
+  const start = tiles[0];
+  if (start.x > 0 || start.x + start.width <= 0 || start.type !== 'normal') {
+    throw new LevelFormatError('tiles[0] must be a normal tile spanning x = 0, where the run starts');
+  }
+
+  const collectibles = asList(raw.collectibles, 'collectibles').map((value, i): LevelCollectible => {
+    const path = `collectibles[${i}]`;
+    const item = asObject(value, path);
+    if (!isFiniteNumber(item.x)) throw new LevelFormatError(`${path}.x must be a number`);
+    if (!COLLECTIBLE_KINDS.includes(item.kind as CollectibleKind)) {
+      throw new LevelFormatError(`${path}.kind must be one of ${COLLECTIBLE_KINDS.join(', ')}`);
+    }
+    const height = item.height ?? DEFAULT_COLLECTIBLE_HEIGHT;
+    if (!isFiniteNumber(height) || height <= 0) {
+      throw new LevelFormatError(`${path}.height must be a positive number`);
+    }
+    if (!tileAt(tiles, item.x)) throw new LevelFormatError(`${path} at x = ${item.x} is not above a tile`);
+    return { x: item.x, kind: item.kind as CollectibleKind, height };
+  });
+
+  const hazards = asList(raw.hazards, 'hazards').map((value, i): LevelHazard => {
+    const path = `hazards[${i}]`;
+    const item = asObject(value, path);
+    if (!isFiniteNumber(item.x)) throw new LevelFormatError(`${path}.x must be a number`);
+    if (!HAZARD_KINDS.includes(item.kind as HazardKind)) {
+      throw new LevelFormatError(`${path}.kind must be one of ${HAZARD_KINDS.join(', ')}`);
+    }
+    const halfWidth = HAZARD_SPECS[item.kind as HazardKind].width / 2;
+    const tile = tileAt(tiles, item.x);
+    if (!tile || item.x - halfWidth < tile.x || item.x + halfWidth > tile.x + tile.width) {
+      throw new LevelFormatError(`${path} at x = ${item.x} must sit entirely on one tile`);
+    }
+    if (!HAZARD_TILE_TYPES.includes(tile.type)) {
+      throw new LevelFormatError(`${path} must sit on a ${HAZARD_TILE_TYPES.join(' or ')} tile`);
+    }
+    return { x: item.x, kind: item.kind as HazardKind };
+  });
+
+  const end = tiles[tiles.length - 1];
+  if (!isFiniteNumber(raw.finishX) || raw.finishX <= 0 || raw.finishX > end.x + end.width) {
+    throw new LevelFormatError('finishX must be past the start and no further than the end of the last tile');
+  }
+
+  return {
+    format: LEVEL_FORMAT,
+    id: raw.id,
+    name: raw.name,
+    description,
+    finishX: raw.finishX,
+    stars: validateStars(raw.stars),
+    tiles,
+    collectibles,
+    hazards,
+  };
+}
+
+export function parseLevel(text: string): Level {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new LevelFormatError('Level is not valid JSON');
+  }
+  return validateLevel(data);
+}
+
+export function serializeLevel(level: Level): string {
+  return JSON.stringify(level, null, 2);
+}
+
+/**
+ * Lays the whole level into a fresh simulation; nothing is generated while it runs. A `startX`
+ * past the start line drops the snowball on the first tile there that holds still, so the editor
+ * can play-test from part way along.
+ */
+export function loadLevel(state: SimState, level: Level, startX = 0) {
+  const { groundY } = state.world;
+
+  state.tiles = level.tiles.map(({ x, width, surface, type, motion }) => {
+    const tile: TileData = { id: state.nextTileId++, x: x + width / 2, width, surfaceY: groundY + surface, type };
+    if (motion) tile.motion = { ...motion, baseX: tile.x, baseSurfaceY: tile.surfaceY };
+    if (type === 'crumbling') tile.crumble = createCrumble(tile);
+    return tile;
+  });
+
+  const startIndex = level.tiles.findIndex(
+    ({ x, width, type }) => x + width >= startX + SNOWBALL_SIZE && HAZARD_TILE_TYPES.includes(type),
+  );
+  const start = state.tiles[Math.max(startIndex, 0)];
+  if (startX > 0 && startIndex >= 0) state.cameraX = Math.max(startX, start.x - start.width / 2 + SNOWBALL_SIZE / 2);
+  state.groundTileId = start.id;
+  state.snowballY = start.surfaceY - SNOWBALL_SIZE;
+
+  // Validation guarantees every collectible and hazard has a tile beneath it
+  const tileAtX = (x: number) =>
+    state.tiles.find(tile => Math.abs(x - tile.x) <= tile.width / 2) as TileData;
+
+  // A play-test part way along leaves out what's behind its start, which would otherwise count
+  // as missed or dodged on the first step
+  const ahead = ({ x }: { x: number }) => startX <= 0 || x >= state.cameraX;
+
+  state.collectibles = level.collectibles.filter(ahead).map(({ x, kind, height }) => {
+    const tile = tileAtX(x);
+    return { id: state.nextCollectibleId++, kind, x, tileId: tile.id, y: tile.surfaceY - height, collected: false, missed: false };
+  });
+  state.tally.giftsSpawned = state.collectibles.filter(col => col.kind === 'gift').length;
+
+  state.hazards = [];
+  for (const { x, kind } of level.hazards.filter(ahead)) placeHazard(state, kind, tileAtX(x), x);
+
+  state.finishX = level.finishX;
+}
+
+// Stars earned by a run: none unless it reached the finish line
+export function levelStars(level: Level, score: number, finished: boolean): number {
+  if (!finished) return 0;
+  return level.stars.filter(threshold => score >= threshold).length;
+}
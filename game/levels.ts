@@ -0,0 +1,19 @@
+import firstSteps from '../assets/levels/first-steps.json';
+import iceAndStairs from '../assets/levels/ice-and-stairs.json';
+import snowdriftCircus from '../assets/levels/snowdrift-circus.json';
+import { validateLevel, type Level } from './level';
+import { hashString } from './random';
+import type { RunConfig } from './types';
+
+// Bundled levels, in the order the level select lists them. Validated on load so a broken
+// file fails loudly in development instead of producing an unplayable course.
+export const BUNDLED_LEVELS: readonly Level[] = [firstSteps, iceAndStairs, snowdriftCircus].map(validateLevel);
+
+export function findLevel(id: string): Level | undefined {
+  return BUNDLED_LEVELS.find(level => level.id === id);
+}
+
+// Each level gets a fixed seed of its own, which also keeps its ghosts apart from seeded runs
+export function levelRunConfig(level: Level): RunConfig {
+  return { mode: 'level', seed: hashString(`level:${level.id}`), levelId: level.id };
+}
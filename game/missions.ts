@@ -0,0 +1,148 @@
+import type { RunStats } from './achievements';
+import { PIXELS_PER_METER, TIME_STEP } from './constants';
+
+// Missions on offer at any one time
+export const ACTIVE_MISSIONS = 3;
+// Gifts paid for a mission at each tier of difficulty
+const TIER_REWARDS = [10, 20, 40];
+// Completed missions it takes to move on to the next tier
+const MISSIONS_PER_TIER = 6;
+
+export type MissionKind =
+  | 'gifts'
+  | 'giftStreak'
+  | 'jumps'
+  | 'doubleJumps'
+  | 'dodges'
+  | 'distance'
+  | 'cleanDistance'
+  | 'survive';
+
+interface MissionSpec {
+  // Goal at each tier
+  goals: readonly number[];
+  describe(goal: number): string;
+  progress(run: RunStats): number;
+}
+
+const MISSION_SPECS: Record<MissionKind, MissionSpec> = {
+  gifts: {
+    goals: [5, 8, 12],
+    describe: goal => `COLLECT ${goal} GIFTS IN ONE RUN`,
+    progress: run => run.gifts,
+  },
+  giftStreak: {
+    goals: [3, 5, 8],
+    describe: goal => `COLLECT ${goal} GIFTS IN A ROW`,
+    progress: run => run.bestGiftStreak,
+  },
+  jumps: {
+    goals: [20, 40, 70],
+    describe: goal => `JUMP ${goal} TIMES IN ONE RUN`,
+    progress: run => run.tally.jumps,
+  },
+  doubleJumps: {
+    goals: [5, 10, 20],
+    describe: goal => `DOUBLE JUMP ${goal} TIMES IN ONE RUN`,
+    progress: run => run.tally.doubleJumps,
+  },
+  dodges: {
+    goals: [3, 6, 10],
+    describe: goal => `JUMP ${goal} HAZARDS IN ONE RUN`,
+    progress: run => run.dodges,
+  },
+  distance: {
+    goals: [300, 600, 1000],
+    describe: goal => `ROLL ${goal}M IN ONE RUN`,
+    progress: run => Math.floor(run.distance / PIXELS_PER_METER),
+  },
+  cleanDistance: {
+    goals: [200, 400, 700],
+    describe: goal => `ROLL ${goal}M WITHOUT MISSING A GIFT`,
+    progress: run => Math.floor(run.bestCleanDistance / PIXELS_PER_METER),
+  },
+  survive: {
+    goals: [30, 60, 100],
+    describe: goal => `SURVIVE ${goal} SECONDS`,
+    progress: run => Math.floor((run.ticks * TIME_STEP) / 1000),
+  },
+};
+
+const MISSION_KINDS = Object.keys(MISSION_SPECS) as MissionKind[];
+
+export interface Mission {
+  kind: MissionKind;
+  goal: number;
+  // Gifts paid on completion
+  reward: number;
+}
+
+// The active missions and what finishing them has paid out so far
+export interface MissionLog {
+  active: Mission[];
+  completed: number;
+  rewards: number;
+}
+
+// How a mission went in one run
+export interface MissionResult {
+  mission: Mission;
+  progress: number;
+  completed: boolean;
+}
+
+export function isMissionKind(value: unknown): value is MissionKind {
+  return typeof value === 'string' && value in MISSION_SPECS;
+}
+
+export function describeMission(mission: Mission): string {
+  return MISSION_SPECS[mission.kind].describe(mission.goal);
+}
+
+export function missionProgress(mission: Mission, run: RunStats): number {
+  return Math.min(MISSION_SPECS[mission.kind].progress(run), mission.goal);
+}
+
+/**
+ * A new mission of a kind that isn't already active, harder the more missions have been
+ * completed. Missions are picked outside the simulation, so `random` needn't be seeded.
+ */
+export function pickMission(active: readonly Mission[], completed: number, random: () => number = Math.random): Mission {
+  const kinds = MISSION_KINDS.filter(kind => !active.some(mission => mission.kind === kind));
+  const kind = kinds[Math.floor(random() * kinds.length)];
+  const tier = Math.min(Math.floor(completed / MISSIONS_PER_TIER), TIER_REWARDS.length - 1);
+  return { kind, goal: MISSION_SPECS[kind].goals[tier], reward: TIER_REWARDS[tier] };
+}
+
+export function createMissionLog(random: () => number = Math.random): MissionLog {
+  const active: Mission[] = [];
+  while (active.length < ACTIVE_MISSIONS) active.push(pickMission(active, 0, random));
+  return { active, completed: 0, rewards: 0 };
+}
+
+/**
+ * Scores a finished run against the active missions. Completed ones pay their reward and are
+ * replaced in the same slot; the results keep the run's missions in order for the game-over
+ * screen.
+ */
+export function completeMissions(
+  log: MissionLog,
+  run: RunStats,
+  random: () => number = Math.random,
+): { log: MissionLog; results: MissionResult[] } {
+  const results = log.active.map(mission => {
+    const progress = missionProgress(mission, run);
+    return { mission, progress, completed: progress >= mission.goal };
+  });
+
+  const active = [...log.active];
+  let { completed, rewards } = log;
+  results.forEach((result, slot) => {
+    if (!result.completed) return;
+    completed++;
+    rewards += result.mission.reward;
+    active[slot] = pickMission(active, completed, random);
+  });
+
+  return { log: { active, completed, rewards }, results };
+}
@@ -0,0 +1,84 @@
+import { INITIAL_SPEED, SNOWBALL_SIZE } from './constants';
+import type { PowerUpKind, SimEvent, SimState } from './types';
+
+export const POWER_UP_KINDS: readonly PowerUpKind[] = ['magnet', 'shield', 'slowMotion', 'tripleJump'];
+
+// Ticks each power-up stays active after pickup
+export const POWER_UP_DURATIONS: Record<PowerUpKind, number> = {
+  magnet: 600,
+  shield: 900,
+  slowMotion: 300,
+  tripleJump: 600,
+};
+
+export const POWER_UP_CHANCE = 0.15;
+
+export const MAGNET_RADIUS = 220;
+const MAGNET_PULL = 8;
+const SLOW_MOTION_FACTOR = 0.6;
+const SHIELD_BOUNCE_FORCE = -22;
+// Long enough for the bounce to clear whatever tile wall or hazard is beside the pit
+const SHIELD_INVULNERABLE_TICKS = 30;
+
+export function createPowerUpTimers(): Record<PowerUpKind, number> {
+  return { magnet: 0, shield: 0, slowMotion: 0, tripleJump: 0 };
+}
+
+export function isPowerUpActive(state: SimState, kind: PowerUpKind): boolean {
+  return state.powerUps[kind] > 0;
+}
+
+export function activatePowerUp(state: SimState, kind: PowerUpKind) {
+  state.powerUps[kind] = POWER_UP_DURATIONS[kind];
+  // Picking up triple jump mid-air grants the extra jump straight away
+  if (kind === 'tripleJump' && !state.isOnGround) state.hasExtraJump = true;
+}
+
+export function tickPowerUps(state: SimState, events: SimEvent[]) {
+  for (const kind of POWER_UP_KINDS) {
+    if (state.powerUps[kind] <= 0) continue;
+    state.powerUps[kind]--;
+    if (state.powerUps[kind] === 0) events.push({ type: 'powerUpExpired', kind });
+  }
+  if (state.invulnerableTicks > 0) state.invulnerableTicks--;
+}
+
+// Slow-motion never drops below the starting speed so early gaps stay clearable
+export function slowMotionSpeed(speed: number): number {
+  return Math.max(speed * SLOW_MOTION_FACTOR, Math.min(speed, INITIAL_SPEED));
+}
+
+// Horizontal speed this tick
+export function effectiveSpeed(state: SimState): number {
+  return isPowerUpActive(state, 'slowMotion') ? slowMotionSpeed(state.speed) : state.speed;
+}
+
+export function applyMagnet(state: SimState) {
+  if (!isPowerUpActive(state, 'magnet')) return;
+
+  for (const col of state.collectibles) {
+    if (col.collected || col.kind !== 'gift') continue;
+    const dx = state.cameraX - col.x;
+    const dy = state.snowballY - col.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance > MAGNET_RADIUS || distance === 0) continue;
+    const pull = Math.min(MAGNET_PULL, distance);
+    col.x += (dx / distance) * pull;
+    col.y += (dy / distance) * pull;
+  }
+}
+
+// Bounces the snowball out of a pit instead of letting it fall
+export function tryShieldBounce(state: SimState, events: SimEvent[]) {
+  if (!isPowerUpActive(state, 'shield')) return;
+  if (state.velocity <= 0 || state.snowballY < state.world.height - SNOWBALL_SIZE) return;
+
+  state.powerUps.shield = 0;
+  state.velocity = SHIELD_BOUNCE_FORCE;
+  state.jumpCuttable = false;
+  state.snowballY = state.world.height - SNOWBALL_SIZE;
+  state.hasDoubleJump = true;
+  state.lastTapTick = state.tick;
+  state.invulnerableTicks = SHIELD_INVULNERABLE_TICKS;
+  events.push({ type: 'shieldUsed' });
+}
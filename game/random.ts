@@ -0,0 +1,56 @@
+// Seedable PRNG (mulberry32). The state is a plain object so it can be
+// snapshotted and serialised along with the rest of the simulation.
+export interface Rng {
+  state: number;
+}
+
+export function createRng(seed: number): Rng {
+  return { state: seed >>> 0 };
+}
+
+export function nextFloat(rng: Rng): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+export function nextInt(rng: Rng, max: number): number {
+  return Math.floor(nextFloat(rng) * max);
+}
+
+export function pick<T>(rng: Rng, values: readonly T[]): T {
+  return values[nextInt(rng, values.length)];
+}
+
+// FNV-1a, used to turn arbitrary text into a 32-bit seed
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Keyed on the UTC date so every player gets the same course on the same day
+export function dailySeedKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function dailySeed(date: Date = new Date()): number {
+  return hashString(`daily:${dailySeedKey(date)}`);
+}
+
+// Plain integers are used as-is so seeds can be shared verbatim; anything else is hashed
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (trimmed.length === 0) return null;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+  return hashString(trimmed);
+}
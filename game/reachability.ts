@@ -0,0 +1,226 @@
+import {
+  DOUBLE_JUMP_FORCE,
+  DOUBLE_JUMP_WINDOW,
+  GRAVITY,
+  JUMP_FORCE,
+  LANDING_TOLERANCE,
+  MAX_SPEED,
+  SNOWBALL_SIZE,
+  SPEED_INCREMENT,
+  TERMINAL_VELOCITY,
+} from './constants';
+import { slowMotionSpeed } from './powerups';
+import { BOUNCE_FORCE, CRUMBLE_DELAY, baseSurfaceY, baseX } from './tiles';
+import type { SimState, TileData } from './types';
+
+// Jump arcs are flown tick by tick with the same integration as `step`, so the envelope
+// matches what the player can actually do rather than a closed-form approximation.
+
+export const MIN_GAP = 100;
+// Gaps never go all the way to the edge of the envelope, leaving room for reaction time
+const ENVELOPE_MARGIN = 0.9;
+
+// Course difficulty rises linearly with distance between these bounds
+const DIFFICULTY_MIN = 0.2;
+const DIFFICULTY_MAX = 0.9;
+const DIFFICULTY_RAMP_DISTANCE = 40000;
+// Past this difficulty gaps start to need a double jump
+const DOUBLE_JUMP_DIFFICULTY = 0.5;
+// How far either side of the target difficulty a single gap may stray
+const GAP_JITTER = 0.1;
+
+// Spacing of the take-off points tried along a tile
+const TAKEOFF_STEP = 10;
+const MAX_ARC_TICKS = 240;
+// Bottom of the snowball this far below the take-off surface counts as falling in
+const FALL_DEPTH = 400;
+
+const HALF_SIZE = SNOWBALL_SIZE / 2;
+const DOUBLE_JUMP_TICKS = Array.from({ length: DOUBLE_JUMP_WINDOW - 1 }, (_, i) => i + 1);
+
+/**
+ * One way of getting from a tile to the next. Distances are measured from the take-off tile's
+ * right edge and screen y still grows downwards.
+ */
+export interface Crossing {
+  gap: number;
+  // How much higher the landing surface is; negative for drops
+  rise: number;
+  landingWidth: number;
+  speed: number;
+  // Take-off points that are available, measured back from the edge
+  minTakeoff: number;
+  maxTakeoff: number;
+  // Snowdrifts launch on their own and launch again if you come down on them
+  bouncy: boolean;
+}
+
+interface JumpPlan {
+  takeoff: number;
+  // Tick after the launch to double jump on, or null for a single jump
+  doubleJumpAt: number | null;
+  // Roll off the edge without jumping
+  rollOff?: boolean;
+}
+
+function flyArc(crossing: Crossing, plan: JumpPlan): boolean {
+  const { gap, rise, landingWidth, speed, bouncy } = crossing;
+  // One pixel in, so the snowball still overlaps the edge at a take-off of 0
+  let x = HALF_SIZE - 1 - plan.takeoff;
+  let y = 0;
+  let velocity = plan.rollOff ? 0 : bouncy ? BOUNCE_FORCE : JUMP_FORCE;
+  // `step` applies a tap before gravity but a bounce after it, hence the head start
+  let sinceLaunch = bouncy ? 1 : 0;
+  let canDoubleJump = !plan.rollOff;
+
+  for (let tick = 0; tick < MAX_ARC_TICKS; tick++) {
+    if (canDoubleJump && sinceLaunch === plan.doubleJumpAt) {
+      velocity = DOUBLE_JUMP_FORCE;
+      canDoubleJump = false;
+    }
+    velocity = Math.min(velocity + GRAVITY, TERMINAL_VELOCITY);
+    y += velocity;
+    x += speed;
+    sinceLaunch++;
+
+    if (x - HALF_SIZE < 0) {
+      // Back down on the take-off tile: only a snowdrift gets another go
+      if (y >= 0 && velocity >= 0) {
+        if (!bouncy) return false;
+        y = 0;
+        velocity = BOUNCE_FORCE;
+        sinceLaunch = 1;
+        canDoubleJump = true;
+      }
+    } else if (x + HALF_SIZE > gap) {
+      if (x - HALF_SIZE >= gap + landingWidth) return false;
+      const depth = y + rise;
+      if (depth > LANDING_TOLERANCE) return false;
+      if (depth >= 0 && velocity >= 0) return true;
+    } else if (y > FALL_DEPTH) {
+      return false;
+    }
+  }
+  return false;
+}
+
+function takeoffPoints(crossing: Crossing): number[] {
+  const points: number[] = [];
+  for (let t = crossing.minTakeoff; t < crossing.maxTakeoff; t += TAKEOFF_STEP) points.push(t);
+  points.push(crossing.maxTakeoff);
+  return points;
+}
+
+function canClearFrom(crossing: Crossing, takeoff: number): boolean {
+  if (flyArc(crossing, { takeoff, doubleJumpAt: null })) return true;
+  return DOUBLE_JUMP_TICKS.some(doubleJumpAt => flyArc(crossing, { takeoff, doubleJumpAt }));
+}
+
+/**
+ * Whether some sequence of taps gets across. A snowdrift decides the take-off point for you,
+ * so every point on it has to work; anywhere else one good take-off point is enough.
+ */
+export function canClear(crossing: Crossing): boolean {
+  const points = takeoffPoints(crossing);
+  if (crossing.bouncy) return points.every(takeoff => canClearFrom(crossing, takeoff));
+  if (crossing.minTakeoff === 0 && flyArc(crossing, { takeoff: 0, doubleJumpAt: null, rollOff: true })) {
+    return true;
+  }
+  return points.some(takeoff => canClearFrom(crossing, takeoff));
+}
+
+// Horizontal distance covered from the edge until the arc comes down to the given rise
+function landingDistance(speed: number, rise: number, doubleJumpAt: number | null): number {
+  let x = 0;
+  let y = 0;
+  let velocity = JUMP_FORCE;
+  for (let tick = 0; tick < MAX_ARC_TICKS; tick++) {
+    if (tick === doubleJumpAt) velocity = DOUBLE_JUMP_FORCE;
+    velocity = Math.min(velocity + GRAVITY, TERMINAL_VELOCITY);
+    y += velocity;
+    x += speed;
+    if (velocity >= 0 && y + rise >= 0) return y + rise <= LANDING_TOLERANCE ? x : 0;
+  }
+  return 0;
+}
+
+export interface JumpEnvelope {
+  // Widest gap cleared by a single jump from the very edge
+  single: number;
+  // Widest gap cleared with the best-timed double jump
+  double: number;
+}
+
+export function jumpEnvelope(speed: number, rise: number): JumpEnvelope {
+  const single = landingDistance(speed, rise, null);
+  const double = Math.max(single, ...DOUBLE_JUMP_TICKS.map(tick => landingDistance(speed, rise, tick)));
+  // Touching the next tile with the snowball's leading half is enough to land
+  return { single: single + SNOWBALL_SIZE, double: double + SNOWBALL_SIZE };
+}
+
+export function courseDifficulty(x: number): number {
+  return Math.min(DIFFICULTY_MIN + Math.max(x, 0) / DIFFICULTY_RAMP_DISTANCE, DIFFICULTY_MAX);
+}
+
+/**
+ * Picks a gap as a fraction of the reachable envelope at the slowest speed the player might be
+ * going. Low difficulty stays well inside a single jump; high difficulty asks for a double.
+ */
+export function chooseGap(random: number, speed: number, rise: number, difficulty: number): number {
+  const { single, double } = jumpEnvelope(speed, rise);
+  const doubleShare = Math.max(difficulty - DOUBLE_JUMP_DIFFICULTY, 0) / (1 - DOUBLE_JUMP_DIFFICULTY);
+  const reach = (single + (double - single) * doubleShare) * ENVELOPE_MARGIN;
+  const target = Math.min(Math.max(difficulty + (random - 0.5) * 2 * GAP_JITTER, 0), 1);
+  return Math.round(MIN_GAP + Math.max(reach - MIN_GAP, 0) * target);
+}
+
+/**
+ * Speeds the player could be rolling at when they reach a tile at `x`: the current speed, what it
+ * will have ramped up to by then, and the floor slow-motion can drag it down to.
+ */
+export function arrivalSpeeds(state: SimState, x: number): number[] {
+  const ticksAway = Math.max(x - state.cameraX, 0) / state.speed;
+  const projected = Math.min(state.speed + SPEED_INCREMENT * ticksAway, MAX_SPEED);
+  return [slowMotionSpeed(state.speed), state.speed, projected];
+}
+
+/**
+ * The crossings from `prev` to `next` that all have to be clearable: one per speed and extreme
+ * of any oscillation, with the take-off window a crumbling tile leaves you.
+ */
+export function crossingsBetween(prev: TileData, next: TileData, speeds: number[]): Crossing[] {
+  const gap = baseX(next) - next.width / 2 - (baseX(prev) + prev.width / 2);
+  const rise = baseSurfaceY(prev) - baseSurfaceY(next);
+
+  const swayX = (prev.motion?.axis === 'x' ? prev.motion.amplitude : 0) +
+    (next.motion?.axis === 'x' ? next.motion.amplitude : 0);
+  const swayY = (prev.motion?.axis === 'y' ? prev.motion.amplitude : 0) +
+    (next.motion?.axis === 'y' ? next.motion.amplitude : 0);
+  // A gap that closes up can be as much trouble as one that opens, since you may drop into it
+  const gaps = swayX > 0 ? [gap - swayX, gap + swayX] : [gap];
+  const rises = swayY > 0 ? [rise - swayY, rise + swayY] : [rise];
+
+  const crossings: Crossing[] = [];
+  for (const speed of speeds) {
+    // Worst case for a crumbling tile is landing on its near end and having to leave in time
+    const minTakeoff = prev.type === 'crumbling' ? Math.max(prev.width - CRUMBLE_DELAY * speed, 0) : 0;
+    for (const g of gaps) {
+      for (const r of rises) {
+        crossings.push({
+          gap: g,
+          rise: r,
+          landingWidth: next.width,
+          speed,
+          minTakeoff,
+          maxTakeoff: prev.width,
+          bouncy: prev.type === 'bouncy',
+        });
+      }
+    }
+  }
+  return crossings;
+}
+
+export function canCross(prev: TileData, next: TileData, speeds: number[]): boolean {
+  return crossingsBetween(prev, next, speeds).every(canClear);
+}
@@ -0,0 +1,186 @@
+import { SIM_VERSION } from './constants';
+import { findLevel } from './levels';
+import type { GameMode, RunConfig, SimInput, SimState } from './types';
+
+export const REPLAY_FORMAT = 2;
+// Format 1 predates variable-height jumps; its jumps were all held to the top
+const SUPPORTED_FORMATS = [1, REPLAY_FORMAT];
+
+export interface Replay {
+  format: number;
+  simVersion: number;
+  id: string;
+  mode: GameMode;
+  seed: number;
+  // Bundled level the run was played on, for 'level' mode
+  levelId?: string;
+  // Viewport the run was simulated in; generation and death height depend on it
+  world: { width: number; height: number };
+  // Fixed-step ticks at which a jump input was fed into `step`
+  jumpTicks: number[];
+  // Ticks at which the jump input was let go
+  releaseTicks: number[];
+  durationTicks: number;
+  score: number;
+  // World units travelled (final cameraX)
+  distance: number;
+  recordedAt: string;
+}
+
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+export interface ReplayRecorder {
+  run: RunConfig;
+  world: { width: number; height: number };
+  jumpTicks: number[];
+  releaseTicks: number[];
+}
+
+export function createRecorder(run: RunConfig, world: { width: number; height: number }): ReplayRecorder {
+  return { run, world: { width: world.width, height: world.height }, jumpTicks: [], releaseTicks: [] };
+}
+
+export function recordInput(recorder: ReplayRecorder, tick: number, input: SimInput) {
+  if (input.jump) recorder.jumpTicks.push(tick);
+  if (input.release) recorder.releaseTicks.push(tick);
+}
+
+export function finishRecording(recorder: ReplayRecorder, sim: SimState): Replay {
+  const recordedAt = new Date().toISOString();
+  const { mode, seed, levelId } = recorder.run;
+  return {
+    format: REPLAY_FORMAT,
+    simVersion: SIM_VERSION,
+    id: `${Date.now().toString(36)}-${seed.toString(36)}`,
+    mode,
+    seed,
+    ...(levelId !== undefined && { levelId }),
+    world: recorder.world,
+    jumpTicks: recorder.jumpTicks,
+    releaseTicks: recorder.releaseTicks,
+    durationTicks: sim.tick,
+    score: Math.floor(sim.score),
+    distance: sim.cameraX,
+    recordedAt,
+  };
+}
+
+export interface ReplayCursor {
+  replay: Replay;
+  index: number;
+  releaseIndex: number;
+}
+
+export function createCursor(replay: Replay): ReplayCursor {
+  return { replay, index: 0, releaseIndex: 0 };
+}
+
+// Whether `ticks` holds `tick`, advancing `index` past everything before it
+function takeTick(ticks: number[], index: number, tick: number): [boolean, number] {
+  while (index < ticks.length && ticks[index] < tick) index++;
+  const hit = index < ticks.length && ticks[index] === tick;
+  return [hit, hit ? index + 1 : index];
+}
+
+// Returns the recorded input for `tick`; ticks must be requested in increasing order
+export function nextReplayInput(cursor: ReplayCursor, tick: number): SimInput {
+  const [jump, index] = takeTick(cursor.replay.jumpTicks, cursor.index, tick);
+  const [release, releaseIndex] = takeTick(cursor.replay.releaseTicks, cursor.releaseIndex, tick);
+  cursor.index = index;
+  cursor.releaseIndex = releaseIndex;
+  return { jump, release };
+}
+
+// Replays of a level also need that level to still be bundled
+export function canPlayReplay(replay: Replay): boolean {
+  if (replay.levelId !== undefined && !findLevel(replay.levelId)) return false;
+  return replay.simVersion === SIM_VERSION;
+}
+
+export function replayRunConfig(replay: Replay): RunConfig {
+  return { mode: replay.mode, seed: replay.seed, levelId: replay.levelId };
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+const MODES: readonly GameMode[] = ['endless', 'daily', 'custom', 'level'];
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function parseTicks(value: unknown, field: string): number[] {
+  if (!Array.isArray(value) || !value.every(t => Number.isInteger(t) && t >= 0)) {
+    throw new ReplayFormatError(`${field} must be a list of non-negative integers`);
+  }
+  for (let i = 1; i < value.length; i++) {
+    if (value[i] <= value[i - 1]) {
+      throw new ReplayFormatError(`${field} must be strictly increasing`);
+    }
+  }
+  return value as number[];
+}
+
+export function parseReplay(text: string): Replay {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ReplayFormatError('Replay is not valid JSON');
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    throw new ReplayFormatError('Replay must be a JSON object');
+  }
+  const raw = data as Record<string, unknown>;
+
+  if (!SUPPORTED_FORMATS.includes(raw.format as number)) {
+    throw new ReplayFormatError(`Unsupported replay format: ${String(raw.format)}`);
+  }
+  if (!isFiniteNumber(raw.simVersion)) throw new ReplayFormatError('Replay is missing simVersion');
+  if (typeof raw.id !== 'string' || raw.id.length === 0) throw new ReplayFormatError('Replay is missing an id');
+  if (!MODES.includes(raw.mode as GameMode)) throw new ReplayFormatError(`Unknown mode: ${String(raw.mode)}`);
+  if (!isFiniteNumber(raw.seed)) throw new ReplayFormatError('Replay is missing a seed');
+  if (raw.mode === 'level' ? typeof raw.levelId !== 'string' : raw.levelId !== undefined) {
+    throw new ReplayFormatError('Replay must have a levelId exactly when its mode is level');
+  }
+
+  const world = raw.world as Record<string, unknown> | undefined;
+  if (!world || !isFiniteNumber(world.width) || !isFiniteNumber(world.height)) {
+    throw new ReplayFormatError('Replay is missing world dimensions');
+  }
+
+  const jumpTicks = parseTicks(raw.jumpTicks, 'jumpTicks');
+  const releaseTicks = raw.format === 1 ? [] : parseTicks(raw.releaseTicks, 'releaseTicks');
+
+  if (!isFiniteNumber(raw.durationTicks)) throw new ReplayFormatError('Replay is missing durationTicks');
+  if (!isFiniteNumber(raw.score)) throw new ReplayFormatError('Replay is missing a score');
+  if (raw.distance !== undefined && !isFiniteNumber(raw.distance)) {
+    throw new ReplayFormatError('Replay distance must be a number');
+  }
+  if (typeof raw.recordedAt !== 'string') throw new ReplayFormatError('Replay is missing recordedAt');
+
+  return {
+    format: REPLAY_FORMAT,
+    simVersion: raw.simVersion,
+    id: raw.id,
+    mode: raw.mode as GameMode,
+    seed: raw.seed >>> 0,
+    ...(typeof raw.levelId === 'string' && { levelId: raw.levelId }),
+    world: { width: world.width, height: world.height },
+    jumpTicks,
+    releaseTicks,
+    durationTicks: raw.durationTicks,
+    score: raw.score,
+    // Older format-1 files predate the distance field
+    distance: isFiniteNumber(raw.distance) ? raw.distance : 0,
+    recordedAt: raw.recordedAt,
+  };
+}
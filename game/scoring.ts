@@ -0,0 +1,103 @@
+import { COLLECTIBLE_SCORE, SNOWBALL_SIZE } from './constants';
+import type { ComboState, ScoreSource, SimEvent, SimState } from './types';
+
+export const SCORE_SOURCES: readonly ScoreSource[] = ['distance', 'gifts', 'dodges', 'cleanJumps', 'perfectLandings'];
+
+// A jump that reaches its landing without the double jump
+export const CLEAN_JUMP_SCORE = 5;
+export const PERFECT_LANDING_SCORE = 25;
+// Landing with the snowball's centre this close to the tile's leading edge is perfect
+export const PERFECT_LANDING_RANGE = 12;
+
+// Ticks the chain waits for its next link (3 seconds)
+const COMBO_WINDOW = 180;
+// Every COMBO_STEP links add MULTIPLIER_STEP to the multiplier, up to MAX_MULTIPLIER
+const COMBO_STEP = 3;
+const MULTIPLIER_STEP = 0.5;
+export const MAX_MULTIPLIER = 4;
+// Lost per tick once the chain has broken: half a step a second
+const MULTIPLIER_DECAY = MULTIPLIER_STEP / 60;
+
+export function createCombo(): ComboState {
+  return { count: 0, best: 0, ticksLeft: 0, multiplier: 1, airborne: 'none' };
+}
+
+export function createScoreSources(): Record<ScoreSource, number> {
+  return { distance: 0, gifts: 0, dodges: 0, cleanJumps: 0, perfectLandings: 0 };
+}
+
+// The multiplier a chain of `count` links earns
+export function comboMultiplier(count: number): number {
+  return Math.min(1 + Math.floor(count / COMBO_STEP) * MULTIPLIER_STEP, MAX_MULTIPLIER);
+}
+
+export function scoreDistance(state: SimState, speed: number) {
+  state.score += speed / 100;
+  state.scoreSources.distance += speed / 100;
+}
+
+// Adds a link to the chain and pays `base` points for it at the new multiplier
+function awardLink(
+  state: SimState,
+  events: SimEvent[],
+  source: Exclude<ScoreSource, 'distance'>,
+  base: number,
+  x: number,
+  y: number,
+) {
+  const { combo } = state;
+  combo.count++;
+  combo.best = Math.max(combo.best, combo.count);
+  combo.ticksLeft = COMBO_WINDOW;
+  combo.multiplier = Math.max(combo.multiplier, comboMultiplier(combo.count));
+
+  const points = Math.round(base * combo.multiplier);
+  state.score += points;
+  state.scoreSources[source] += points;
+  events.push({ type: 'scored', source, points, x, y, combo: combo.count, multiplier: combo.multiplier });
+}
+
+export function breakCombo(state: SimState, events: SimEvent[]) {
+  const { combo } = state;
+  if (combo.count === 0) return;
+  events.push({ type: 'comboBroken', count: combo.count });
+  combo.count = 0;
+  combo.ticksLeft = 0;
+}
+
+// Runs the chain's timer down, then lets the multiplier fall away
+export function tickCombo(state: SimState, events: SimEvent[]) {
+  const { combo } = state;
+  if (combo.ticksLeft > 0) {
+    combo.ticksLeft--;
+    if (combo.ticksLeft === 0) breakCombo(state, events);
+  } else if (combo.multiplier > 1) {
+    combo.multiplier = Math.max(combo.multiplier - MULTIPLIER_DECAY, 1);
+  }
+}
+
+export function scoreGift(state: SimState, events: SimEvent[], x: number, y: number) {
+  awardLink(state, events, 'gifts', COLLECTIBLE_SCORE, x, y);
+}
+
+// `points` is the hazard's own dodge score
+export function scoreDodge(state: SimState, events: SimEvent[], points: number, x: number, y: number) {
+  awardLink(state, events, 'dodges', points, x, y);
+}
+
+// The snowball leaves the ground, or spends a mid-air jump
+export function scoreJump(state: SimState, midAir: boolean) {
+  state.combo.airborne = midAir ? 'doubleJump' : 'jump';
+}
+
+// The snowball came down on a tile whose leading (left) edge is at `tileLeft`
+export function scoreLanding(state: SimState, events: SimEvent[], tileLeft: number) {
+  const { combo } = state;
+  const x = state.cameraX;
+  const y = state.snowballY + SNOWBALL_SIZE;
+  if (combo.airborne === 'jump') awardLink(state, events, 'cleanJumps', CLEAN_JUMP_SCORE, x, y);
+  if (combo.airborne !== 'none' && Math.abs(x - tileLeft) <= PERFECT_LANDING_RANGE) {
+    awardLink(state, events, 'perfectLandings', PERFECT_LANDING_SCORE, x, y);
+  }
+  combo.airborne = 'none';
+}
@@ -0,0 +1,43 @@
+import { GRAVITY, SNOWBALL_SIZE } from './constants';
+import { nextFloat } from './random';
+import type { ParticleData, SimState } from './types';
+
+export const SHATTER_PIECES = 20;
+// Pieces fade out over this many ticks of shatter time
+const SHATTER_LIFE = 60;
+
+/**
+ * Pieces of the snowball bursting from where it died, in the world view's coordinates (the
+ * snowball sits at the middle of the view). Drawn from the effects stream, so a replayed death
+ * shatters the same way.
+ */
+export function createShatter(state: SimState): ParticleData[] {
+  const pieces: ParticleData[] = [];
+  for (let i = 0; i < SHATTER_PIECES; i++) {
+    const angle = (Math.PI * 2 * i) / SHATTER_PIECES;
+    const speed = 2 + nextFloat(state.fxRng) * 4;
+    pieces.push({
+      id: i,
+      x: state.world.width / 2,
+      y: state.snowballY + SNOWBALL_SIZE / 2,
+      // Carry on a little in the direction the snowball was going
+      vx: Math.cos(angle) * speed + state.speed * 0.5,
+      vy: Math.sin(angle) * speed - 2 + state.velocity * 0.3,
+      opacity: 1,
+      size: 4 + nextFloat(state.fxRng) * 6,
+      life: 1,
+    });
+  }
+  return pieces;
+}
+
+// Advances the pieces by `ticks` of shatter time, which can be a fraction for slow motion
+export function updateShatter(pieces: ParticleData[], ticks: number) {
+  for (const p of pieces) {
+    p.vy += GRAVITY * ticks;
+    p.x += p.vx * ticks;
+    p.y += p.vy * ticks;
+    p.life = Math.max(p.life - ticks / SHATTER_LIFE, 0);
+    p.opacity = p.life;
+  }
+}
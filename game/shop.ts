@@ -0,0 +1,146 @@
+// Cosmetics bought with banked gifts. Nothing here changes how a run plays.
+
+export type ShopCategory = 'snowball' | 'tiles';
+
+export type SnowballFace = 'smile' | 'grin' | 'shades';
+
+export interface SnowballSkin {
+  id: string;
+  category: 'snowball';
+  name: string;
+  price: number;
+  color: string;
+  border: string;
+  glow: string;
+  face?: SnowballFace;
+  // A band across the ball, which shows it rolling
+  stripe?: string;
+  // Colour of the dots left behind in the air
+  trail?: string;
+}
+
+// Colours for normal tiles; the other tile types keep their own looks so they stay readable
+export interface TileTheme {
+  id: string;
+  category: 'tiles';
+  name: string;
+  price: number;
+  base: string;
+  top: string;
+  snow: string;
+}
+
+export type ShopItem = SnowballSkin | TileTheme;
+
+export const SNOWBALL_SKINS: readonly SnowballSkin[] = [
+  { id: 'classic', category: 'snowball', name: 'CLASSIC', price: 0, color: '#fff', border: '#e1f5fe', glow: '#fff' },
+  { id: 'frosty', category: 'snowball', name: 'FROSTY', price: 30, color: '#fff', border: '#e1f5fe', glow: '#fff', face: 'smile' },
+  {
+    id: 'candy-cane',
+    category: 'snowball',
+    name: 'CANDY CANE',
+    price: 60,
+    color: '#fff',
+    border: '#ffcdd2',
+    glow: '#ff8a80',
+    stripe: '#e53935',
+  },
+  {
+    id: 'ember',
+    category: 'snowball',
+    name: 'EMBER',
+    price: 80,
+    color: '#ffab91',
+    border: '#ff7043',
+    glow: '#ff5722',
+    trail: '#ff7043',
+  },
+  { id: 'shades', category: 'snowball', name: 'COOL SHADES', price: 100, color: '#fff', border: '#e1f5fe', glow: '#fff', face: 'shades' },
+  {
+    id: 'aurora',
+    category: 'snowball',
+    name: 'AURORA',
+    price: 120,
+    color: '#b9f6ca',
+    border: '#69f0ae',
+    glow: '#69f0ae',
+    stripe: '#18ffff',
+    trail: '#18ffff',
+  },
+  {
+    id: 'midnight',
+    category: 'snowball',
+    name: 'MIDNIGHT',
+    price: 150,
+    color: '#303f9f',
+    border: '#7986cb',
+    glow: '#536dfe',
+    face: 'grin',
+    trail: '#7986cb',
+  },
+];
+
+// The free tiles follow the visual theme chosen in settings (see useTileTheme); the colours here
+// are only what they fall back to
+export const TILE_THEMES: readonly TileTheme[] = [
+  { id: 'winter-night', category: 'tiles', name: 'THEME COLOURS', price: 0, base: '#1a237e', top: '#e3f2fd', snow: '#90caf9' },
+  { id: 'pine', category: 'tiles', name: 'PINE', price: 50, base: '#1b5e20', top: '#f1f8e9', snow: '#a5d6a7' },
+  { id: 'gingerbread', category: 'tiles', name: 'GINGERBREAD', price: 80, base: '#6d4c41', top: '#fff8e1', snow: '#ffab91' },
+  { id: 'glacier', category: 'tiles', name: 'GLACIER', price: 100, base: '#006064', top: '#e0f7fa', snow: '#80deea' },
+];
+
+export const SHOP_ITEMS: readonly ShopItem[] = [...SNOWBALL_SKINS, ...TILE_THEMES];
+
+export interface Wallet {
+  // Banked gifts, spent in the shop
+  gifts: number;
+  // Ids of the items bought; free items are always owned
+  owned: string[];
+  equipped: Record<ShopCategory, string>;
+}
+
+export class PurchaseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PurchaseError';
+  }
+}
+
+export function createWallet(): Wallet {
+  return { gifts: 0, owned: [], equipped: { snowball: SNOWBALL_SKINS[0].id, tiles: TILE_THEMES[0].id } };
+}
+
+// Unknown ids, say from an item that was since removed, fall back to the free look
+export function findSnowballSkin(id: string): SnowballSkin {
+  return SNOWBALL_SKINS.find(skin => skin.id === id) ?? SNOWBALL_SKINS[0];
+}
+
+export function findTileTheme(id: string): TileTheme {
+  return TILE_THEMES.find(theme => theme.id === id) ?? TILE_THEMES[0];
+}
+
+export function ownsItem(wallet: Wallet, item: ShopItem): boolean {
+  return item.price === 0 || wallet.owned.includes(item.id);
+}
+
+export function depositGifts(wallet: Wallet, gifts: number): Wallet {
+  return { ...wallet, gifts: wallet.gifts + gifts };
+}
+
+// Pays for `item` and equips it. Throws PurchaseError when that isn't possible.
+export function buyItem(wallet: Wallet, item: ShopItem): Wallet {
+  if (ownsItem(wallet, item)) throw new PurchaseError(`${item.name} is already yours`);
+  if (wallet.gifts < item.price) {
+    throw new PurchaseError(`${item.name} needs ${item.price - wallet.gifts} more gifts`);
+  }
+  return {
+    gifts: wallet.gifts - item.price,
+    owned: [...wallet.owned, item.id],
+    equipped: { ...wallet.equipped, [item.category]: item.id },
+  };
+}
+
+export function equipItem(wallet: Wallet, item: ShopItem): Wallet {
+  if (!ownsItem(wallet, item)) throw new PurchaseError(`Buy ${item.name} first`);
+  return { ...wallet, equipped: { ...wallet.equipped, [item.category]: item.id } };
+}
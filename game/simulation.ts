@@ -0,0 +1,496 @@
+import {
+  COLLECTIBLE_CHANCE,
+  COYOTE_TIME,
+  DOUBLE_JUMP_FORCE,
+  DOUBLE_JUMP_WINDOW,
+  GRAVITY,
+  INITIAL_SPEED,
+  INITIAL_TILE_COUNT,
+  JUMP_BUFFER_TIME,
+  JUMP_FORCE,
+  JUMP_RELEASE_VELOCITY,
+  LANDING_TOLERANCE,
+  MAX_PARTICLES,
+  MAX_SPEED,
+  PICKUP_RANGE,
+  SNOWBALL_SIZE,
+  SPEED_INCREMENT,
+  START_TILE_WIDTH,
+  TERMINAL_VELOCITY,
+  TILE_WIDTHS,
+} from './constants';
+import { spawnHazard, updateHazards } from './hazards';
+import { loadLevel, type Level } from './level';
+import {
+  MAGNET_RADIUS,
+  POWER_UP_CHANCE,
+  POWER_UP_KINDS,
+  activatePowerUp,
+  applyMagnet,
+  createPowerUpTimers,
+  effectiveSpeed,
+  isPowerUpActive,
+  tickPowerUps,
+  tryShieldBounce,
+} from './powerups';
+import { createRng, nextFloat, pick } from './random';
+import { MIN_GAP, arrivalSpeeds, canCross, chooseGap, courseDifficulty } from './reachability';
+import {
+  breakCombo,
+  createCombo,
+  createScoreSources,
+  scoreDistance,
+  scoreGift,
+  scoreJump,
+  scoreLanding,
+  tickCombo,
+} from './scoring';
+import { createTally, tallyStep } from './summary';
+import { createTerrain, nextTerrainStep } from './terrain';
+import {
+  BOUNCE_FORCE,
+  BOUNCE_LANDING_WIDTH,
+  ICE_SPEED_FACTOR,
+  baseSurfaceY,
+  baseX,
+  chooseTileType,
+  createCrumble,
+  createMotion,
+  isSolid,
+  startCrumbling,
+  updateTiles,
+} from './tiles';
+import type { DeathCause, ParticleData, SimEvent, SimInput, SimState, TileData, WorldConfig } from './types';
+
+// Headless game rules. Nothing in here may touch React, Dimensions, Haptics or Audio:
+// the screen feeds inputs into `step` and reacts to the events it returns.
+
+export function createWorld(width: number, height: number): WorldConfig {
+  return {
+    width,
+    height,
+    groundY: height - 200,
+    spawnAheadDistance: width * 1.5,
+  };
+}
+
+// Step the gap shrinks by while backing off an unclearable crossing
+const GAP_BACKOFF = 10;
+
+/**
+ * Lays out the next tile. The gap is sized against the jump envelope for the current difficulty,
+ * then every crossing is checked and backed off (shorter gap, plain tile, level surface) until
+ * it can be cleared at any speed the player might arrive at.
+ */
+function appendTile(state: SimState, tiles: TileData[], prev: TileData): TileData {
+  const prevSurfaceY = baseSurfaceY(prev);
+  const prevRight = baseX(prev) + prev.width / 2;
+  const speeds = arrivalSpeeds(state, prevRight);
+  let width = pick(state.rng, TILE_WIDTHS);
+  let surfaceY = nextTerrainStep(state.rng, state.terrain, prevSurfaceY, state.world.groundY);
+  const rise = prevSurfaceY - surfaceY;
+  let gap = chooseGap(nextFloat(state.rng), Math.min(...speeds), rise, courseDifficulty(prevRight));
+
+  // Bouncing can't be steered, so the tile after a snowdrift is a close, wide, level landing
+  if (prev.type === 'bouncy') {
+    width = BOUNCE_LANDING_WIDTH;
+    gap = MIN_GAP;
+    surfaceY = prevSurfaceY;
+  }
+
+  // Prev Right Edge + Gap + New Half Width
+  const tile: TileData = {
+    id: state.nextTileId++,
+    x: prevRight + gap + width / 2,
+    width,
+    surfaceY,
+    type: 'normal',
+  };
+  tile.type = chooseTileType(state.rng, tile.x, width, prevSurfaceY - surfaceY);
+  if (tile.type === 'moving') tile.motion = createMotion(state.rng, tile);
+  if (tile.type === 'crumbling') tile.crumble = createCrumble(tile);
+
+  while (!canCross(prev, tile, speeds)) {
+    if (gap > MIN_GAP) {
+      gap = Math.max(gap - GAP_BACKOFF, MIN_GAP);
+    } else if (tile.type !== 'normal') {
+      tile.type = 'normal';
+      delete tile.motion;
+      delete tile.crumble;
+    } else if (tile.surfaceY !== prevSurfaceY) {
+      tile.surfaceY = prevSurfaceY;
+    } else {
+      break;
+    }
+    tile.x = prevRight + gap + width / 2;
+    if (tile.motion) tile.motion.baseX = tile.x;
+  }
+
+  tiles.push(tile);
+  return tile;
+}
+
+/**
+ * A fresh run on the course generated from `seed`, or on a hand-authored `level` when given.
+ * Levels still take a seed for the cosmetic effects.
+ */
+export function createInitialState(world: WorldConfig, seed: number, level?: Level, startX = 0): SimState {
+  const state: SimState = {
+    world,
+    seed,
+    // Cosmetic effects draw from their own stream so they never shift the course
+    rng: createRng(seed),
+    fxRng: createRng(seed ^ 0x9e3779b9),
+    tick: 0,
+    snowballY: world.groundY - SNOWBALL_SIZE,
+    velocity: 0,
+    cameraX: 0,
+    speed: INITIAL_SPEED,
+    isOnGround: true,
+    groundTileId: 0,
+    hasDoubleJump: false,
+    hasExtraJump: false,
+    score: 0,
+    scoreSources: createScoreSources(),
+    combo: createCombo(),
+    giftsCollected: 0,
+    tally: createTally(),
+    coyoteTimer: 0,
+    jumpBufferTimer: 0,
+    lastTapTick: null,
+    jumpHeld: false,
+    jumpCuttable: false,
+    isDead: false,
+    finishX: null,
+    finished: false,
+    powerUps: createPowerUpTimers(),
+    invulnerableTicks: 0,
+    terrain: createTerrain(),
+    tiles: [],
+    collectibles: [],
+    hazards: [],
+    particles: [],
+    nextTileId: 0,
+    nextCollectibleId: 0,
+    nextHazardId: 0,
+    nextParticleId: 0,
+  };
+
+  if (level) {
+    loadLevel(state, level, startX);
+    return state;
+  }
+
+  // Start with a very long safe platform centered at 0
+  let prev: TileData = {
+    id: state.nextTileId++,
+    x: 0,
+    width: START_TILE_WIDTH,
+    surfaceY: world.groundY,
+    type: 'normal',
+  };
+  state.tiles.push(prev);
+
+  for (let i = 0; i < INITIAL_TILE_COUNT; i++) {
+    prev = appendTile(state, state.tiles, prev);
+  }
+
+  return state;
+}
+
+function applyJump(state: SimState, events: SimEvent[]) {
+  state.jumpHeld = true;
+  const withinDoubleJumpWindow =
+    state.lastTapTick !== null && state.tick - state.lastTapTick < DOUBLE_JUMP_WINDOW;
+
+  // First tap or single tap (on ground/coyote)
+  if (state.isOnGround || state.coyoteTimer > 0) {
+    state.velocity = JUMP_FORCE;
+    state.isOnGround = false;
+    state.groundTileId = null;
+    state.coyoteTimer = 0;
+    state.hasDoubleJump = true;
+    state.hasExtraJump = isPowerUpActive(state, 'tripleJump');
+    state.lastTapTick = state.tick;
+    state.jumpCuttable = true;
+    scoreJump(state, false);
+    events.push({ type: 'jumped', double: false, extra: false, buffered: false });
+  }
+  // Double jump (in air, shortly after the last tap)
+  else if (state.hasDoubleJump && withinDoubleJumpWindow) {
+    state.velocity = DOUBLE_JUMP_FORCE;
+    state.hasDoubleJump = false;
+    // Keep the window open only if the triple-jump power-up has a jump left
+    state.lastTapTick = state.hasExtraJump ? state.tick : null;
+    state.jumpCuttable = true;
+    scoreJump(state, true);
+    events.push({ type: 'jumped', double: true, extra: false, buffered: false });
+  }
+  // Triple jump from the power-up
+  else if (state.hasExtraJump && withinDoubleJumpWindow) {
+    state.velocity = DOUBLE_JUMP_FORCE;
+    state.hasExtraJump = false;
+    state.lastTapTick = null;
+    state.jumpCuttable = true;
+    scoreJump(state, true);
+    events.push({ type: 'jumped', double: true, extra: true, buffered: false });
+  }
+  // Jump buffer for landing soon
+  else {
+    state.jumpBufferTimer = JUMP_BUFFER_TIME;
+    state.lastTapTick = state.tick;
+  }
+}
+
+// Letting go while still rising from a jump trims what is left of the rise
+function releaseJump(state: SimState) {
+  state.jumpHeld = false;
+  if (state.jumpCuttable) state.velocity = Math.max(state.velocity, JUMP_RELEASE_VELOCITY);
+  state.jumpCuttable = false;
+}
+
+// Returns a death cause when the snowball runs into the side of a tile
+function updateCollision(state: SimState, events: SimEvent[]): DeathCause | null {
+  const wasOnGround = state.isOnGround;
+
+  const snowballBottom = state.snowballY + SNOWBALL_SIZE;
+  const snowballLeft = state.cameraX - SNOWBALL_SIZE / 2;
+  const snowballRight = state.cameraX + SNOWBALL_SIZE / 2;
+
+  let onTile = false;
+  let shouldLand = false;
+
+  for (const tile of state.tiles) {
+    if (!isSolid(tile)) continue;
+    const halfWidth = tile.width / 2;
+    const tileLeft = tile.x - halfWidth;
+    const tileRight = tile.x + halfWidth;
+
+    if (snowballRight <= tileLeft || snowballLeft >= tileRight) continue;
+
+    const distanceToSurface = snowballBottom - tile.surfaceY;
+
+    // Deeper than the landing tolerance means we came in from the side, not from above
+    if (distanceToSurface > LANDING_TOLERANCE) {
+      if (state.invulnerableTicks > 0) continue;
+      return 'wall';
+    }
+
+    if (distanceToSurface >= 0 && state.velocity >= 0) {
+      state.snowballY = tile.surfaceY - SNOWBALL_SIZE;
+      state.velocity = 0;
+      state.isOnGround = true;
+      state.groundTileId = tile.id;
+      state.hasDoubleJump = false;
+      state.hasExtraJump = false;
+      state.coyoteTimer = COYOTE_TIME;
+      shouldLand = true;
+      onTile = true;
+
+      if (!wasOnGround) {
+        const overlap = Math.min(snowballRight, tileRight) - Math.max(snowballLeft, tileLeft);
+        events.push({ type: 'landed', tileId: tile.id, overlap });
+        scoreLanding(state, events, tileLeft);
+      }
+      if (tile.type === 'crumbling') startCrumbling(tile);
+
+      if (tile.type === 'bouncy') {
+        // Snowdrifts launch you straight back up and leave the double jump available
+        state.velocity = BOUNCE_FORCE;
+        state.isOnGround = false;
+        state.groundTileId = null;
+        // A bounce is not a ledge to coyote-jump off, so the next tap is the double jump
+        state.coyoteTimer = 0;
+        state.hasDoubleJump = true;
+        state.hasExtraJump = isPowerUpActive(state, 'tripleJump');
+        state.lastTapTick = state.tick;
+        state.jumpBufferTimer = 0;
+        state.jumpCuttable = false;
+        events.push({ type: 'bounced', tileId: tile.id });
+      } else if (state.jumpBufferTimer > 0) {
+        state.velocity = JUMP_FORCE;
+        state.isOnGround = false;
+        state.groundTileId = null;
+        state.hasDoubleJump = true;
+        state.hasExtraJump = isPowerUpActive(state, 'tripleJump');
+        state.jumpBufferTimer = 0;
+        // A tap that was already let go before landing still gets the full jump
+        state.jumpCuttable = state.jumpHeld;
+        scoreJump(state, false);
+        events.push({ type: 'jumped', double: false, extra: false, buffered: true });
+      }
+      break;
+    } else if (Math.abs(distanceToSurface) < 5) {
+      onTile = true;
+    }
+  }
+
+  if (!shouldLand && state.isOnGround && !onTile) {
+    state.isOnGround = false;
+    state.groundTileId = null;
+    state.coyoteTimer = COYOTE_TIME;
+  }
+
+  return null;
+}
+
+/**
+ * Lays the next tile after `prev`, along with its hazard and collectible. Exported so tooling can
+ * generate a course without playing it.
+ */
+export function extendCourse(state: SimState, tiles: TileData[], prev: TileData): TileData {
+  const tile = appendTile(state, tiles, prev);
+  const hazard = spawnHazard(state, tile, prev);
+
+  // Gifts float above ground hazards as a reward for jumping them; icicles leave no room
+  if (hazard?.kind !== 'icicle' && nextFloat(state.rng) < COLLECTIBLE_CHANCE) {
+    const kind = nextFloat(state.rng) < POWER_UP_CHANCE ? pick(state.rng, POWER_UP_KINDS) : 'gift';
+    if (kind === 'gift') state.tally.giftsSpawned++;
+    state.collectibles.push({
+      id: state.nextCollectibleId++,
+      kind,
+      x: hazard ? hazard.x : tile.x,
+      tileId: tile.id,
+      y: hazard ? hazard.y - 90 : tile.surfaceY - 70,
+      collected: false,
+      missed: false,
+    });
+  }
+  return tile;
+}
+
+function updateSpawning(state: SimState) {
+  const { width, spawnAheadDistance } = state.world;
+  const activeTiles = state.tiles.filter(t => t.x + t.width / 2 > state.cameraX - width);
+
+  // Levels are laid out in full up front
+  const lastTile = activeTiles[activeTiles.length - 1];
+  if (state.finishX === null && lastTile && lastTile.x + lastTile.width / 2 < state.cameraX + spawnAheadDistance) {
+    extendCourse(state, activeTiles, lastTile);
+  }
+
+  state.tiles = activeTiles;
+}
+
+function updateCollectibles(state: SimState, events: SimEvent[]) {
+  const { width } = state.world;
+  state.collectibles = state.collectibles.filter(c => c.x > state.cameraX - width);
+
+  applyMagnet(state);
+
+  // Behind the snowball and beyond this, a collectible can't be reached any more
+  const reach = isPowerUpActive(state, 'magnet') ? Math.max(PICKUP_RANGE, MAGNET_RADIUS) : PICKUP_RANGE;
+
+  for (const col of state.collectibles) {
+    if (col.collected) continue;
+    const dx = Math.abs(col.x - state.cameraX);
+    if (dx < PICKUP_RANGE && Math.abs(state.snowballY - col.y) < 50) {
+      col.collected = true;
+      if (col.kind === 'gift') {
+        state.giftsCollected++;
+        scoreGift(state, events, col.x, col.y);
+      } else {
+        activatePowerUp(state, col.kind);
+      }
+      events.push({ type: 'collected', collectibleId: col.id, kind: col.kind, x: col.x });
+    } else if (!col.missed && state.cameraX - col.x >= reach) {
+      col.missed = true;
+      events.push({ type: 'missed', collectibleId: col.id, kind: col.kind });
+      // Letting a gift go by ends the chain
+      if (col.kind === 'gift') breakCombo(state, events);
+    }
+  }
+}
+
+// Snowflakes that fell out of the world, reused for new ones so steady snowfall allocates nothing.
+// Shared by every simulation; a recycled flake is fully overwritten before it is seen again.
+const particlePool: ParticleData[] = [];
+
+function updateParticles(state: SimState) {
+  const { width, height } = state.world;
+  const rng = state.fxRng;
+
+  if (state.particles.length < MAX_PARTICLES && nextFloat(rng) < 0.2) {
+    const p = particlePool.pop() ?? { id: 0, x: 0, y: 0, vx: 0, vy: 0, opacity: 0, size: 0, life: 0 };
+    p.id = state.nextParticleId++;
+    p.x = nextFloat(rng) * width;
+    p.y = -20;
+    p.vx = (nextFloat(rng) - 0.5) * 2;
+    p.vy = 1 + nextFloat(rng) * 3;
+    p.opacity = 0.3 + nextFloat(rng) * 0.7;
+    p.size = 2 + nextFloat(rng) * 4;
+    p.life = 1;
+    state.particles.push(p);
+  }
+
+  // Move in place, compacting out the flakes that left the world
+  let kept = 0;
+  for (const p of state.particles) {
+    p.x += p.vx;
+    p.y += p.vy;
+    if (p.y < height) state.particles[kept++] = p;
+    else particlePool.push(p);
+  }
+  state.particles.length = kept;
+}
+
+function advance(state: SimState, input: SimInput, events: SimEvent[]) {
+  if (input.jump) applyJump(state, events);
+  if (input.release) releaseJump(state);
+
+  state.velocity = Math.min(state.velocity + GRAVITY, TERMINAL_VELOCITY);
+  state.snowballY += state.velocity;
+
+  state.speed = Math.min(state.speed + SPEED_INCREMENT, MAX_SPEED);
+  const groundTile = state.isOnGround ? state.tiles.find(t => t.id === state.groundTileId) : undefined;
+  const speed = effectiveSpeed(state) * (groundTile?.type === 'icy' ? ICE_SPEED_FACTOR : 1);
+  state.cameraX += speed;
+  state.tally.topSpeed = Math.max(state.tally.topSpeed, state.speed);
+  scoreDistance(state, speed);
+
+  tickPowerUps(state, events);
+  tickCombo(state, events);
+
+  if (state.jumpBufferTimer > 0) state.jumpBufferTimer--;
+  if (state.coyoteTimer > 0) state.coyoteTimer--;
+
+  updateTiles(state, events);
+  tryShieldBounce(state, events);
+  const cause: DeathCause | null =
+    updateCollision(state, events) ??
+    updateHazards(state, events) ??
+    (state.snowballY > state.world.height + 100 ? 'fell' : null);
+
+  if (cause) {
+    state.isDead = true;
+    events.push({ type: 'died', cause });
+    state.tick++;
+    return;
+  }
+
+  if (state.finishX !== null && state.cameraX >= state.finishX) {
+    state.finished = true;
+    events.push({ type: 'finished' });
+    state.tick++;
+    return;
+  }
+
+  updateSpawning(state);
+  updateCollectibles(state, events);
+  updateParticles(state);
+
+  state.tick++;
+}
+
+/**
+ * Advances the simulation by one fixed time step, mutating `state` in place.
+ * Returns the events that happened during the step, in order.
+ */
+export function step(state: SimState, input: SimInput): SimEvent[] {
+  const events: SimEvent[] = [];
+  if (state.isDead || state.finished) return events;
+
+  advance(state, input, events);
+  tallyStep(state.tally, events);
+  return events;
+}
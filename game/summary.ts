@@ -0,0 +1,82 @@
+import { PIXELS_PER_METER, TARGET_FPS, TIME_STEP } from './constants';
+import { HAZARD_SPECS } from './hazards';
+import type { DeathCause, GameMode, HazardKind, RunConfig, SimEvent, SimState, SimTally } from './types';
+
+export const DEATH_CAUSES: readonly DeathCause[] = ['fell', 'wall', ...(Object.keys(HAZARD_SPECS) as HazardKind[])];
+
+export function isDeathCause(value: unknown): value is DeathCause {
+  return DEATH_CAUSES.includes(value as DeathCause);
+}
+
+/**
+ * How a run went, for the game-over screen and the run history. Built from the simulation alone
+ * once the run is over, so nothing is tracked per frame outside it.
+ */
+export interface RunSummary {
+  date: string;
+  mode: GameMode;
+  seed: number;
+  levelId?: string;
+  score: number;
+  // Metres
+  distance: number;
+  // Milliseconds of simulated play
+  time: number;
+  // Metres per second
+  topSpeed: number;
+  jumps: number;
+  doubleJumps: number;
+  gifts: number;
+  // Gifts laid on the course, including ones still ahead when the run ended
+  giftsSpawned: number;
+  nearMisses: number;
+  bestCombo: number;
+  // Null when the run ended at a finish line
+  cause: DeathCause | null;
+}
+
+export function createTally(): SimTally {
+  return { jumps: 0, doubleJumps: 0, topSpeed: 0, giftsSpawned: 0, nearMisses: 0 };
+}
+
+// Counts a step's events into the tally; the simulation calls this after every step
+export function tallyStep(tally: SimTally, events: readonly SimEvent[]) {
+  for (const event of events) {
+    switch (event.type) {
+      case 'jumped':
+        tally.jumps++;
+        if (event.double && !event.extra) tally.doubleJumps++;
+        break;
+      case 'dodged':
+        if (event.nearMiss) tally.nearMisses++;
+        break;
+    }
+  }
+}
+
+export function summarizeRun(state: SimState, run: RunConfig, cause: DeathCause | null, date: string): RunSummary {
+  const { tally } = state;
+  return {
+    date,
+    mode: run.mode,
+    seed: run.seed,
+    ...(run.levelId !== undefined && { levelId: run.levelId }),
+    score: Math.floor(state.score),
+    distance: Math.floor(state.cameraX / PIXELS_PER_METER),
+    time: Math.round(state.tick * TIME_STEP),
+    topSpeed: (tally.topSpeed * TARGET_FPS) / PIXELS_PER_METER,
+    jumps: tally.jumps,
+    doubleJumps: tally.doubleJumps,
+    gifts: state.giftsCollected,
+    giftsSpawned: tally.giftsSpawned,
+    nearMisses: tally.nearMisses,
+    bestCombo: state.combo.best,
+    cause,
+  };
+}
+
+// Minutes and seconds, like 2:05
+export function formatRunTime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
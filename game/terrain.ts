@@ -0,0 +1,68 @@
+import {
+  DROP_SIZES,
+  LEDGE_RISE,
+  STAIR_STEP,
+  SURFACE_MAX_OFFSET,
+  SURFACE_MIN_OFFSET,
+} from './constants';
+import { nextFloat, nextInt, pick, type Rng } from './random';
+
+export type TerrainPattern = 'flat' | 'stairsUp' | 'stairsDown' | 'ledge' | 'drop';
+
+export interface TerrainState {
+  pattern: TerrainPattern;
+  // Tiles left to place in the current pattern
+  remaining: number;
+}
+
+export function createTerrain(): TerrainState {
+  return { pattern: 'flat', remaining: 2 };
+}
+
+function choosePattern(rng: Rng): TerrainState {
+  const roll = nextFloat(rng);
+  if (roll < 0.4) return { pattern: 'flat', remaining: 1 + nextInt(rng, 3) };
+  if (roll < 0.6) return { pattern: 'stairsUp', remaining: 2 + nextInt(rng, 3) };
+  if (roll < 0.8) return { pattern: 'stairsDown', remaining: 2 + nextInt(rng, 2) };
+  if (roll < 0.9) return { pattern: 'ledge', remaining: 1 };
+  return { pattern: 'drop', remaining: 1 };
+}
+
+function riseFor(rng: Rng, pattern: TerrainPattern): number {
+  switch (pattern) {
+    case 'stairsUp':
+      return STAIR_STEP;
+    case 'stairsDown':
+      return -STAIR_STEP;
+    case 'ledge':
+      return LEDGE_RISE;
+    case 'drop':
+      return -pick(rng, DROP_SIZES);
+    case 'flat':
+      return 0;
+  }
+}
+
+/**
+ * Picks the surface height of the next tile (screen y grows downwards). The gap before it is
+ * left to the generator, which sizes it against the jump envelope.
+ * Patterns that would leave the allowed height band are flattened instead.
+ */
+export function nextTerrainStep(
+  rng: Rng,
+  terrain: TerrainState,
+  prevSurfaceY: number,
+  groundY: number,
+): number {
+  if (terrain.remaining <= 0) {
+    Object.assign(terrain, choosePattern(rng));
+  }
+  terrain.remaining--;
+
+  const surfaceY = prevSurfaceY - riseFor(rng, terrain.pattern);
+  if (surfaceY < groundY + SURFACE_MIN_OFFSET || surfaceY > groundY + SURFACE_MAX_OFFSET) {
+    terrain.remaining = 0;
+    return prevSurfaceY;
+  }
+  return surfaceY;
+}
@@ -0,0 +1,126 @@
+import { nextFloat, nextInt, type Rng } from './random';
+import type { SimEvent, SimState, TileCrumble, TileData, TileMotion, TileType } from './types';
+
+type SpecialTileType = Exclude<TileType, 'normal'>;
+
+// Spawn weight of each special kind against a weight of 1 for normal tiles,
+// growing linearly from `base` to `max` over TILE_TYPE_RAMP_DISTANCE
+const TILE_TYPE_WEIGHTS: Record<SpecialTileType, { base: number; max: number }> = {
+  icy: { base: 0.1, max: 0.3 },
+  crumbling: { base: 0, max: 0.3 },
+  bouncy: { base: 0.05, max: 0.15 },
+  moving: { base: 0, max: 0.3 },
+};
+const TILE_TYPE_RAMP_DISTANCE = 30000;
+
+export const ICE_SPEED_FACTOR = 1.35;
+export const BOUNCE_FORCE = -15;
+export const CRUMBLE_DELAY = 40;
+const CRUMBLE_GRAVITY = 0.5;
+export const MOVE_AMPLITUDE = 30;
+
+// Bouncing can't be cut short, so the tile after a bouncy one is a wide, level landing
+export const BOUNCE_LANDING_WIDTH = 400;
+
+/**
+ * Only offers kinds that suit the spot: crumbling tiles must be short enough to cross before
+ * they fall, and moving tiles only appear on level ground. Whether the crossing onto and off the
+ * tile is clearable is checked afterwards by the generator.
+ */
+export function chooseTileType(rng: Rng, x: number, width: number, rise: number): TileType {
+  const ramp = Math.min(Math.max(x, 0) / TILE_TYPE_RAMP_DISTANCE, 1);
+  const allowed: Record<SpecialTileType, boolean> = {
+    icy: true,
+    crumbling: width <= 180,
+    bouncy: true,
+    moving: rise === 0,
+  };
+
+  const candidates: [TileType, number][] = [['normal', 1]];
+  for (const type of Object.keys(TILE_TYPE_WEIGHTS) as SpecialTileType[]) {
+    if (!allowed[type]) continue;
+    const { base, max } = TILE_TYPE_WEIGHTS[type];
+    candidates.push([type, base + (max - base) * ramp]);
+  }
+
+  const total = candidates.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = nextFloat(rng) * total;
+  for (const [type, weight] of candidates) {
+    roll -= weight;
+    if (roll < 0) return type;
+  }
+  return 'normal';
+}
+
+export function createMotion(rng: Rng, tile: TileData): TileMotion {
+  return {
+    axis: nextFloat(rng) < 0.5 ? 'x' : 'y',
+    baseX: tile.x,
+    baseSurfaceY: tile.surfaceY,
+    amplitude: MOVE_AMPLITUDE,
+    period: 150 + nextInt(rng, 61),
+    phase: nextInt(rng, 360),
+  };
+}
+
+// Layout position of a tile, ignoring its current oscillation or collapse
+export function baseX(tile: TileData): number {
+  return tile.motion?.baseX ?? tile.x;
+}
+
+export function baseSurfaceY(tile: TileData): number {
+  return tile.motion?.baseSurfaceY ?? (tile.crumble?.baseSurfaceY ?? tile.surfaceY);
+}
+
+// Moves oscillating tiles and drops crumbled ones; gifts ride along with their tile
+export function updateTiles(state: SimState, events: SimEvent[]) {
+  for (const tile of state.tiles) {
+    const prevX = tile.x;
+    const prevY = tile.surfaceY;
+
+    if (tile.motion) {
+      const { axis, amplitude, period, phase } = tile.motion;
+      const offset = amplitude * Math.sin(((state.tick + phase) / period) * Math.PI * 2);
+      if (axis === 'x') tile.x = tile.motion.baseX + offset;
+      else tile.surfaceY = tile.motion.baseSurfaceY + offset;
+    }
+
+    const crumble = tile.crumble;
+    if (crumble && crumble.ticksLeft !== null) {
+      if (crumble.ticksLeft > 0) {
+        crumble.ticksLeft--;
+        if (crumble.ticksLeft === 0) {
+          crumble.collapsed = true;
+          events.push({ type: 'crumbled', tileId: tile.id });
+        }
+      } else {
+        crumble.fallVelocity += CRUMBLE_GRAVITY;
+        tile.surfaceY += crumble.fallVelocity;
+      }
+    }
+
+    const dx = tile.x - prevX;
+    const dy = tile.surfaceY - prevY;
+    if (dx === 0 && dy === 0) continue;
+    for (const col of state.collectibles) {
+      if (col.tileId === tile.id && !col.collected) {
+        col.x += dx;
+        col.y += dy;
+      }
+    }
+  }
+}
+
+export function isSolid(tile: TileData): boolean {
+  return !tile.crumble?.collapsed;
+}
+
+export function startCrumbling(tile: TileData) {
+  if (tile.crumble && tile.crumble.ticksLeft === null) {
+    tile.crumble.ticksLeft = CRUMBLE_DELAY;
+  }
+}
+
+export function createCrumble(tile: TileData): TileCrumble {
+  return { baseSurfaceY: tile.surfaceY, ticksLeft: null, collapsed: false, fallVelocity: 0 };
+}
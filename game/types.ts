@@ -0,0 +1,199 @@
+import type { Rng } from './random';
+import type { TerrainState } from './terrain';
+
+export type GameMode = 'endless' | 'daily' | 'custom' | 'level';
+
+export interface RunConfig {
+  mode: GameMode;
+  seed: number;
+  // Bundled level being played; only set in 'level' mode
+  levelId?: string;
+}
+
+export interface WorldConfig {
+  width: number;
+  height: number;
+  groundY: number;
+  spawnAheadDistance: number;
+}
+
+export type TileType = 'normal' | 'crumbling' | 'icy' | 'bouncy' | 'moving';
+
+export interface TileMotion {
+  axis: 'x' | 'y';
+  baseX: number;
+  baseSurfaceY: number;
+  amplitude: number;
+  // Ticks per full oscillation
+  period: number;
+  phase: number;
+}
+
+export interface TileCrumble {
+  baseSurfaceY: number;
+  // Ticks until the tile gives way, null until something lands on it
+  ticksLeft: number | null;
+  collapsed: boolean;
+  fallVelocity: number;
+}
+
+export interface TileData {
+  id: number;
+  x: number;
+  width: number;
+  // World y of the walkable top surface
+  surfaceY: number;
+  type: TileType;
+  motion?: TileMotion;
+  crumble?: TileCrumble;
+}
+
+export type PowerUpKind = 'magnet' | 'shield' | 'slowMotion' | 'tripleJump';
+
+export type CollectibleKind = 'gift' | PowerUpKind;
+
+export interface CollectibleData {
+  id: number;
+  kind: CollectibleKind;
+  x: number;
+  tileId: number;
+  // World y of the gift's top edge, resting on its tile
+  y: number;
+  collected: boolean;
+  // Went by out of reach without being collected
+  missed: boolean;
+  // added for 3D rotation effect or just static
+  rotation?: number;
+}
+
+export type HazardKind = 'iceSpike' | 'snowman' | 'icicle' | 'log';
+
+export interface HazardData {
+  id: number;
+  kind: HazardKind;
+  tileId: number;
+  // Centre x and top y of the hitbox, in world units
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Leftmost centre x a rolling log can reach before it stops at its tile's edge
+  minX: number;
+  rolling: boolean;
+  dodged: boolean;
+  // Came within NEAR_MISS_CLEARANCE of the snowball without touching it
+  grazed: boolean;
+}
+
+// Where points come from; everything but distance is multiplied by the combo multiplier
+export type ScoreSource = 'distance' | 'gifts' | 'dodges' | 'cleanJumps' | 'perfectLandings';
+
+export interface ComboState {
+  // Gifts, dodged hazards, clean jumps and perfect landings chained since the combo last broke
+  count: number;
+  best: number;
+  // Ticks left to extend the chain before it breaks
+  ticksLeft: number;
+  // Holds while the chain lasts and decays back to 1 once it breaks
+  multiplier: number;
+  // How the snowball left the ground since it last landed; 'jump' alone makes a clean jump
+  airborne: 'none' | 'jump' | 'doubleJump';
+}
+
+// Running totals for the post-run summary, kept by the simulation as it steps
+export interface SimTally {
+  // Every jump, mid-air ones included
+  jumps: number;
+  // The second jump of each chain alone; the triple-jump power-up's third jump is in `jumps` only
+  doubleJumps: number;
+  // Highest state.speed reached, in world units per tick, before slow-motion and ice
+  topSpeed: number;
+  // Gifts laid on the course, whether or not the run got to them
+  giftsSpawned: number;
+  nearMisses: number;
+}
+
+export interface ParticleData {
+  id: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  opacity: number;
+  size: number;
+  life: number;
+}
+
+export interface SimState {
+  world: WorldConfig;
+  seed: number;
+  rng: Rng;
+  fxRng: Rng;
+  tick: number;
+  snowballY: number;
+  velocity: number;
+  cameraX: number;
+  speed: number;
+  isOnGround: boolean;
+  // Tile the snowball is rolling on, null while airborne
+  groundTileId: number | null;
+  hasDoubleJump: boolean;
+  // Third mid-air jump granted by the triple-jump power-up
+  hasExtraJump: boolean;
+  score: number;
+  // The score split by where it came from; the parts add up to `score`
+  scoreSources: Record<ScoreSource, number>;
+  combo: ComboState;
+  giftsCollected: number;
+  tally: SimTally;
+  coyoteTimer: number;
+  jumpBufferTimer: number;
+  // Tick of the last tap that opened the double-jump window, null once spent
+  lastTapTick: number | null;
+  // Jump input is down; letting go cuts a rise that came from a held jump
+  jumpHeld: boolean;
+  jumpCuttable: boolean;
+  isDead: boolean;
+  // Hand-authored levels end at a finish line; generated courses have none and go on forever
+  finishX: number | null;
+  finished: boolean;
+  // Ticks remaining on each power-up, 0 when inactive
+  powerUps: Record<PowerUpKind, number>;
+  // Ticks during which walls and hazards can't kill (after a shield bounce)
+  invulnerableTicks: number;
+  terrain: TerrainState;
+  tiles: TileData[];
+  collectibles: CollectibleData[];
+  hazards: HazardData[];
+  particles: ParticleData[];
+  nextTileId: number;
+  nextCollectibleId: number;
+  nextHazardId: number;
+  nextParticleId: number;
+}
+
+export interface SimInput {
+  jump: boolean;
+  // The jump input was let go; absent in tools that always hold for a full jump
+  release?: boolean;
+}
+
+export type DeathCause = 'fell' | 'wall' | HazardKind;
+
+export type SimEvent =
+  | { type: 'jumped'; double: boolean; extra: boolean; buffered: boolean }
+  // `overlap` is how much of the snowball's width came down on the tile
+  | { type: 'landed'; tileId: number; overlap: number }
+  | { type: 'bounced'; tileId: number }
+  | { type: 'crumbled'; tileId: number }
+  | { type: 'collected'; collectibleId: number; kind: CollectibleKind; x: number }
+  | { type: 'missed'; collectibleId: number; kind: CollectibleKind }
+  // Points from a combo link, already multiplied, awarded at world position (x, y)
+  | { type: 'scored'; source: Exclude<ScoreSource, 'distance'>; points: number; x: number; y: number; combo: number; multiplier: number }
+  | { type: 'comboBroken'; count: number }
+  | { type: 'powerUpExpired'; kind: PowerUpKind }
+  | { type: 'shieldUsed' }
+  // `nearMiss` when the hazard passed within NEAR_MISS_CLEARANCE
+  | { type: 'dodged'; hazardId: number; kind: HazardKind; nearMiss: boolean }
+  | { type: 'died'; cause: DeathCause }
+  | { type: 'finished' };
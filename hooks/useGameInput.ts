@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { PanResponder, Platform, type GestureResponderHandlers } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+
+// Space, Up and W jump on the web build
+const JUMP_KEYS = new Set(['Space', 'ArrowUp', 'KeyW']);
+// Standard-mapping gamepad buttons: A / Cross and d-pad up
+const JUMP_BUTTONS = [0, 12];
+
+export interface GameInputHandlers {
+  // Times are on the `performance.now()` clock
+  onPress: (time: number) => void;
+  onRelease: (time: number) => void;
+}
+
+function isTyping(target: EventTarget | null): boolean {
+  const tag = (target as HTMLElement | null)?.tagName;
+  return tag === 'INPUT' || tag === 'TEXTAREA';
+}
+
+/**
+ * Feeds touch, keyboard and gamepad into the same press/release handlers. Returns the touch
+ * handlers to spread on the game's root view; keyboard and gamepad only listen while the screen
+ * is focused, so typing on another route never jumps.
+ */
+export function useGameInput(handlers: GameInputHandlers): GestureResponderHandlers {
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => handlersRef.current.onPress(performance.now()),
+      onPanResponderRelease: () => handlersRef.current.onRelease(performance.now()),
+      onPanResponderTerminate: () => handlersRef.current.onRelease(performance.now()),
+    })
+  ).current;
+
+  useFocusEffect(
+    useCallback(() => {
+      if (Platform.OS !== 'web' || typeof window === 'undefined') return;
+
+      const handleKey = (event: KeyboardEvent) => {
+        if (!JUMP_KEYS.has(event.code) || isTyping(event.target)) return;
+        // Keep Space and Up from scrolling the page
+        event.preventDefault();
+        if (event.repeat) return;
+        if (event.type === 'keydown') handlersRef.current.onPress(performance.now());
+        else handlersRef.current.onRelease(performance.now());
+      };
+      window.addEventListener('keydown', handleKey);
+      window.addEventListener('keyup', handleKey);
+
+      // The Gamepad API has no button events, so poll once a frame for edges
+      let frame = 0;
+      let wasDown = false;
+      const pollGamepads = () => {
+        const pads = navigator.getGamepads?.() ?? [];
+        const down = pads.some(pad => pad !== null && JUMP_BUTTONS.some(i => pad.buttons[i]?.pressed));
+        if (down !== wasDown) {
+          wasDown = down;
+          if (down) handlersRef.current.onPress(performance.now());
+          else handlersRef.current.onRelease(performance.now());
+        }
+        frame = requestAnimationFrame(pollGamepads);
+      };
+      frame = requestAnimationFrame(pollGamepads);
+
+      return () => {
+        window.removeEventListener('keydown', handleKey);
+        window.removeEventListener('keyup', handleKey);
+        cancelAnimationFrame(frame);
+      };
+    }, [])
+  );
+
+  return panResponder.panHandlers;
+}
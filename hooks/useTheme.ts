@@ -0,0 +1,30 @@
+import { createContext, use, useMemo } from 'react';
+
+import { DEFAULT_THEME, THEMES, type Theme } from '@/constants/colors';
+import { findTileTheme, TILE_THEMES, type TileTheme } from '@/game/shop';
+
+export const ThemeContext = createContext<Theme>(THEMES[DEFAULT_THEME]);
+
+// The theme picked in settings, from the nearest ThemeProvider
+export function useTheme(): Theme {
+  return use(ThemeContext);
+}
+
+/**
+ * Styles built from the current theme, rebuilt only when the theme changes. Define `factory` at
+ * module level so it keeps its identity between renders.
+ */
+export function useThemedStyles<T>(factory: (theme: Theme) => T): T {
+  const theme = useTheme();
+  return useMemo(() => factory(theme), [factory, theme]);
+}
+
+// The shop's tile theme `id`. The free one takes its colours from the current theme.
+export function useTileTheme(id: string): TileTheme {
+  const { colors } = useTheme();
+  return useMemo(() => {
+    const tileTheme = findTileTheme(id);
+    if (tileTheme.id !== TILE_THEMES[0].id) return tileTheme;
+    return { ...tileTheme, base: colors.tileBase, top: colors.tileTop, snow: colors.tileSnow };
+  }, [id, colors]);
+}
@@ -0,0 +1,41 @@
+import { useMemo } from 'react';
+import { useWindowDimensions } from 'react-native';
+
+// Maps world units onto the screen: screen = world * scale + offset
+export interface Viewport {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * The largest uniform scale that fits a `width` x `height` slice of the world, starting at world
+ * y `top`, into a `screenWidth` x `screenHeight` box, centered. Whatever the aspect ratio, every
+ * screen sees the same slice; the space left over becomes letterbox bars rather than extra course.
+ */
+export function fitViewport(
+  screenWidth: number,
+  screenHeight: number,
+  width: number,
+  height: number,
+  top = 0,
+): Viewport {
+  const scale = Math.min(screenWidth / width, screenHeight / height);
+  return {
+    scale,
+    offsetX: (screenWidth - width * scale) / 2,
+    offsetY: (screenHeight - height * scale) / 2 - top * scale,
+  };
+}
+
+/**
+ * The viewport fitting a whole `width` x `height` world into the window, kept up to date as the
+ * window is resized or the device rotates.
+ */
+export function useViewport(width: number, height: number): Viewport {
+  const dimensions = useWindowDimensions();
+  return useMemo(
+    () => fitViewport(dimensions.width, dimensions.height, width, height),
+    [dimensions.width, dimensions.height, width, height],
+  );
+}
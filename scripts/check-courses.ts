@@ -0,0 +1,185 @@
+/**
+ * Generates seeded courses and proves every crossing can be made by brute-forcing taps through
+ * the real `step`, independently of the arc model the generator itself relies on. The bundled
+ * levels are checked the same way.
+ *
+ *   bun scripts/check-courses.ts [seeds=2000] [tilesPerCourse=80] [firstSeed=1]
+ *
+ * Exits non-zero and lists the offending crossings if any course has an impossible one.
+ * Hazards are left out: this checks the tile layout, not the dodging.
+ */
+import {
+  DOUBLE_JUMP_WINDOW,
+  INITIAL_SPEED,
+  MAX_SPEED,
+  SNOWBALL_SIZE,
+  SPEED_INCREMENT,
+  WORLD_HEIGHT,
+  WORLD_WIDTH,
+} from '../game/constants';
+import { BUNDLED_LEVELS } from '../game/levels';
+import { slowMotionSpeed } from '../game/powerups';
+import { createInitialState, createWorld, extendCourse, step } from '../game/simulation';
+import { baseSurfaceY, baseX, createCrumble, updateTiles } from '../game/tiles';
+import type { SimState, TileData, WorldConfig } from '../game/types';
+
+const WORLD = createWorld(WORLD_WIDTH, WORLD_HEIGHT);
+const BOUNCY_LANDING_SPACING = 50;
+const WAIT_STEP = 2;
+const MAX_FLIGHT_TICKS = 300;
+
+interface Failure {
+  course: string;
+  from: TileData;
+  to: TileData;
+  speed: number;
+}
+
+// Tick and speed the player reaches cameraX `x` at when nothing slows them down
+function scheduleAt(x: number): { tick: number; speed: number } {
+  let tick = 0;
+  let speed = INITIAL_SPEED;
+  let cameraX = 0;
+  while (cameraX < x) {
+    speed = Math.min(speed + SPEED_INCREMENT, MAX_SPEED);
+    cameraX += speed;
+    tick++;
+  }
+  return { tick, speed };
+}
+
+function generateCourse(seed: number, tileCount: number): TileData[] {
+  const state = createInitialState(WORLD, seed);
+  while (state.tiles.length < tileCount) {
+    const last = state.tiles[state.tiles.length - 1];
+    // Spawning happens when the last tile's end comes within reach of the camera
+    state.cameraX = baseX(last) + last.width / 2 - WORLD.spawnAheadDistance;
+    state.speed = scheduleAt(state.cameraX).speed;
+    extendCourse(state, state.tiles, last);
+  }
+  return state.tiles;
+}
+
+function freshTile(tile: TileData): TileData {
+  return {
+    ...tile,
+    x: baseX(tile),
+    surfaceY: baseSurfaceY(tile),
+    motion: tile.motion && { ...tile.motion },
+    crumble: tile.crumble && createCrumble({ ...tile, surfaceY: baseSurfaceY(tile) }),
+  };
+}
+
+/**
+ * A bare world holding just the two tiles, with the snowball resting `offset` pixels into the
+ * first one. Spawning is switched off so nothing else appears.
+ */
+function crossingState(from: TileData, to: TileData, speed: number, slow: boolean, offset: number): SimState {
+  const world: WorldConfig = { ...WORLD, spawnAheadDistance: -Infinity };
+  const state = createInitialState(world, 0);
+  state.tiles = [freshTile(from), freshTile(to)];
+  state.collectibles = [];
+  state.hazards = [];
+  state.tick = scheduleAt(baseX(from)).tick;
+  state.speed = speed;
+  if (slow) state.powerUps.slowMotion = Number.MAX_SAFE_INTEGER;
+  // Start on the tile where it actually is at this tick, not where it was laid out
+  updateTiles(state, []);
+  const start = state.tiles[0];
+  state.cameraX = start.x - start.width / 2 + SNOWBALL_SIZE / 2 + offset;
+  state.snowballY = start.surfaceY - SNOWBALL_SIZE;
+  state.groundTileId = from.id;
+  return state;
+}
+
+// Decides whether to tap on tick `t` of an attempt, given the ticks since the last bounce
+type TapPlan = (t: number, sinceBounce: number | null) => boolean;
+
+function tryPlan(template: SimState, toId: number, plan: TapPlan, maxTicks: number): boolean {
+  const state = structuredClone(template);
+  let sinceBounce: number | null = null;
+  for (let t = 0; t < maxTicks; t++) {
+    if (sinceBounce !== null) sinceBounce++;
+    const events = step(state, { jump: plan(t, sinceBounce) });
+    for (const event of events) {
+      if (event.type === 'landed' && event.tileId === toId) return true;
+      if (event.type === 'died') return false;
+      if (event.type === 'bounced') sinceBounce = 0;
+    }
+  }
+  return false;
+}
+
+function canMakeCrossing(from: TileData, to: TileData, speed: number, slow: boolean, offset: number): boolean {
+  const template = crossingState(from, to, speed, slow, offset);
+  if (tryPlan(template, to.id, () => false, MAX_FLIGHT_TICKS)) return true;
+
+  // Off a snowdrift the only choice is when to tap after each bounce
+  if (from.type === 'bouncy') {
+    for (let delay = 1; delay < DOUBLE_JUMP_WINDOW; delay++) {
+      if (tryPlan(template, to.id, (_, sinceBounce) => sinceBounce === delay, MAX_FLIGHT_TICKS)) return true;
+    }
+    return false;
+  }
+
+  const rollSpeed = slow ? slowMotionSpeed(speed) : speed;
+  const lastTap = Math.ceil((from.width - offset) / rollSpeed) + 1;
+  // The latest taps are the likeliest to work, so try those first
+  for (let tap = lastTap; tap >= 0; tap -= WAIT_STEP) {
+    const maxTicks = tap + MAX_FLIGHT_TICKS;
+    if (tryPlan(template, to.id, t => t === tap, maxTicks)) return true;
+    for (let second = 1; second < DOUBLE_JUMP_WINDOW; second++) {
+      if (tryPlan(template, to.id, t => t === tap || t === tap + second, maxTicks)) return true;
+    }
+  }
+  return false;
+}
+
+function checkCrossing(from: TileData, to: TileData, speed: number): boolean {
+  // Snowdrifts must work from wherever you come down on them; anything else from its near end,
+  // far enough in that a sliding tile can't pull itself out from under the snowball
+  const sway = from.motion?.axis === 'x' ? from.motion.amplitude * 2 : 0;
+  const offsets = from.type === 'bouncy'
+    ? Array.from({ length: Math.floor(from.width / BOUNCY_LANDING_SPACING) }, (_, i) => i * BOUNCY_LANDING_SPACING)
+    : [sway];
+  return [false, true].every(slow => offsets.every(offset => canMakeCrossing(from, to, speed, slow, offset)));
+}
+
+function checkCourse(course: string, tiles: TileData[], failures: Failure[]) {
+  for (let i = 1; i < tiles.length; i++) {
+    const { speed } = scheduleAt(baseX(tiles[i - 1]));
+    if (!checkCrossing(tiles[i - 1], tiles[i], speed)) {
+      failures.push({ course, from: tiles[i - 1], to: tiles[i], speed });
+    }
+  }
+}
+
+function main() {
+  const [seeds = 2000, tilesPerCourse = 80, firstSeed = 1] = process.argv.slice(2).map(Number);
+  const failures: Failure[] = [];
+  const started = Date.now();
+
+  for (let seed = firstSeed; seed < firstSeed + seeds; seed++) {
+    checkCourse(`seed ${seed}`, generateCourse(seed, tilesPerCourse), failures);
+  }
+  for (const level of BUNDLED_LEVELS) {
+    checkCourse(`level ${level.id}`, createInitialState(WORLD, 0, level).tiles, failures);
+  }
+
+  const seconds = ((Date.now() - started) / 1000).toFixed(1);
+  console.log(`Checked ${seeds} courses of ${tilesPerCourse} tiles and ${BUNDLED_LEVELS.length} levels in ${seconds}s`);
+  for (const { course, from, to, speed } of failures.slice(0, 20)) {
+    const gap = baseX(to) - to.width / 2 - (baseX(from) + from.width / 2);
+    console.log(
+      `  ${course}: ${from.type} #${from.id} -> ${to.type} #${to.id}, ` +
+        `gap ${gap}, rise ${baseSurfaceY(from) - baseSurfaceY(to)}, speed ${speed.toFixed(2)}`,
+    );
+  }
+  if (failures.length > 0) {
+    console.log(`${failures.length} impossible crossings`);
+    process.exit(1);
+  }
+  console.log('All crossings clearable');
+}
+
+main();
@@ -0,0 +1,45 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { createLifetimeStats, type LifetimeStats } from '@/game/achievements';
+
+const ACHIEVEMENTS_KEY = 'snowball:achievements';
+
+export interface AchievementProgress {
+  // Unlock date by achievement id
+  unlocked: Record<string, string>;
+  lifetime: LifetimeStats;
+}
+
+export function createAchievementProgress(): AchievementProgress {
+  return { unlocked: {}, lifetime: createLifetimeStats() };
+}
+
+export async function loadAchievements(): Promise<AchievementProgress> {
+  const progress = createAchievementProgress();
+  const raw = await AsyncStorage.getItem(ACHIEVEMENTS_KEY);
+  if (!raw) return progress;
+
+  try {
+    const data = JSON.parse(raw) as Partial<Record<keyof AchievementProgress, unknown>>;
+    if (typeof data.unlocked === 'object' && data.unlocked !== null) {
+      for (const [id, date] of Object.entries(data.unlocked)) {
+        if (typeof date === 'string') progress.unlocked[id] = date;
+      }
+    }
+    if (typeof data.lifetime === 'object' && data.lifetime !== null) {
+      const lifetime = data.lifetime as Record<string, unknown>;
+      // Stats added in later versions start from zero
+      for (const key of Object.keys(progress.lifetime) as (keyof LifetimeStats)[]) {
+        const value = lifetime[key];
+        if (typeof value === 'number') progress.lifetime[key] = value;
+      }
+    }
+  } catch (error) {
+    console.log('Error reading achievements:', error);
+  }
+  return progress;
+}
+
+export async function saveAchievements(progress: AchievementProgress) {
+  await AsyncStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(progress));
+}
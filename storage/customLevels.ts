@@ -0,0 +1,62 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { serializeLevel, validateLevel, type Level } from '@/game/level';
+
+const CUSTOM_LEVELS_KEY = 'snowball:custom-levels';
+// The level open in the editor, kept between visits and handed to the game for play-tests
+const LEVEL_DRAFT_KEY = 'snowball:level-draft';
+
+// Most recently saved first
+export async function listCustomLevels(): Promise<Level[]> {
+  const raw = await AsyncStorage.getItem(CUSTOM_LEVELS_KEY);
+  if (!raw) return [];
+
+  try {
+    const entries: unknown = JSON.parse(raw);
+    if (!Array.isArray(entries)) return [];
+    const levels: Level[] = [];
+    for (const entry of entries) {
+      try {
+        levels.push(validateLevel(entry));
+      } catch (error) {
+        console.log('Dropping unreadable level:', error);
+      }
+    }
+    return levels;
+  } catch (error) {
+    console.log('Error reading custom levels:', error);
+    return [];
+  }
+}
+
+async function writeCustomLevels(levels: Level[]) {
+  await AsyncStorage.setItem(CUSTOM_LEVELS_KEY, `[${levels.map(serializeLevel).join(',')}]`);
+}
+
+// Saving under an existing id replaces that level
+export async function saveCustomLevel(level: Level): Promise<void> {
+  const levels = (await listCustomLevels()).filter(l => l.id !== level.id);
+  levels.unshift(level);
+  await writeCustomLevels(levels);
+}
+
+export async function deleteCustomLevel(id: string): Promise<void> {
+  const levels = await listCustomLevels();
+  await writeCustomLevels(levels.filter(l => l.id !== id));
+}
+
+export async function loadLevelDraft(): Promise<Level | null> {
+  const raw = await AsyncStorage.getItem(LEVEL_DRAFT_KEY);
+  if (!raw) return null;
+
+  try {
+    return validateLevel(JSON.parse(raw));
+  } catch (error) {
+    console.log('Error reading level draft:', error);
+    return null;
+  }
+}
+
+export async function saveLevelDraft(level: Level): Promise<void> {
+  await AsyncStorage.setItem(LEVEL_DRAFT_KEY, serializeLevel(level));
+}
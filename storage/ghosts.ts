@@ -0,0 +1,61 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { parseReplay, serializeReplay, type Replay } from '@/game/replay';
+
+const BEST_REPLAYS_KEY = 'snowball:best-replays';
+const MAX_BEST_REPLAYS = 50;
+
+function courseKey(seed: number, world: { width: number; height: number }): string {
+  return `${seed}:${world.width}x${world.height}`;
+}
+
+async function readBestReplays(): Promise<Record<string, Replay>> {
+  const raw = await AsyncStorage.getItem(BEST_REPLAYS_KEY);
+  if (!raw) return {};
+
+  try {
+    const entries: unknown = JSON.parse(raw);
+    if (typeof entries !== 'object' || entries === null) return {};
+    const best: Record<string, Replay> = {};
+    for (const [key, entry] of Object.entries(entries)) {
+      try {
+        best[key] = parseReplay(JSON.stringify(entry));
+      } catch (error) {
+        console.log('Dropping unreadable ghost:', error);
+      }
+    }
+    return best;
+  } catch (error) {
+    console.log('Error reading ghosts:', error);
+    return {};
+  }
+}
+
+export async function loadBestReplay(
+  seed: number,
+  world: { width: number; height: number },
+): Promise<Replay | null> {
+  const best = await readBestReplays();
+  return best[courseKey(seed, world)] ?? null;
+}
+
+// Stores the replay if it beats the personal best on its course; resolves to whether it did
+export async function submitBestReplay(replay: Replay): Promise<boolean> {
+  const best = await readBestReplays();
+  const key = courseKey(replay.seed, replay.world);
+  const current = best[key];
+  if (current && current.simVersion === replay.simVersion && current.distance >= replay.distance) {
+    return false;
+  }
+
+  best[key] = replay;
+
+  // Keep the most recently set bests
+  const kept = Object.entries(best)
+    .sort(([, a], [, b]) => b.recordedAt.localeCompare(a.recordedAt))
+    .slice(0, MAX_BEST_REPLAYS);
+
+  const serialized = kept.map(([k, r]) => `${JSON.stringify(k)}:${serializeReplay(r)}`).join(',');
+  await AsyncStorage.setItem(BEST_REPLAYS_KEY, `{${serialized}}`);
+  return true;
+}
@@ -0,0 +1,87 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { GameMode } from '@/game/types';
+
+const LEADERBOARD_KEY = 'snowball:leaderboard';
+export const LEADERBOARD_SIZE = 10;
+
+export interface LeaderboardEntry {
+  score: number;
+  // World units travelled (final cameraX)
+  distance: number;
+  gifts: number;
+  date: string;
+  seed: number;
+}
+
+// Levels keep their own best scores and stars instead of a table
+export type ScoredMode = Exclude<GameMode, 'level'>;
+
+export type Leaderboard = Record<ScoredMode, LeaderboardEntry[]>;
+
+export interface ScoreSubmission {
+  // 1-based position in the mode's table, null when it didn't make the top 10
+  rank: number | null;
+  isNewBest: boolean;
+}
+
+function emptyLeaderboard(): Leaderboard {
+  return { endless: [], daily: [], custom: [] };
+}
+
+function isEntry(value: unknown): value is LeaderboardEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.score === 'number' &&
+    typeof entry.distance === 'number' &&
+    typeof entry.gifts === 'number' &&
+    typeof entry.date === 'string' &&
+    typeof entry.seed === 'number'
+  );
+}
+
+export async function loadLeaderboard(): Promise<Leaderboard> {
+  const leaderboard = emptyLeaderboard();
+  const raw = await AsyncStorage.getItem(LEADERBOARD_KEY);
+  if (!raw) return leaderboard;
+
+  try {
+    const data = JSON.parse(raw) as Partial<Record<ScoredMode, unknown>>;
+    for (const mode of Object.keys(leaderboard) as ScoredMode[]) {
+      const entries = data[mode];
+      if (Array.isArray(entries)) leaderboard[mode] = entries.filter(isEntry);
+    }
+  } catch (error) {
+    console.log('Error reading leaderboard:', error);
+  }
+  return leaderboard;
+}
+
+export async function submitScore(mode: ScoredMode, entry: LeaderboardEntry): Promise<ScoreSubmission> {
+  const leaderboard = await loadLeaderboard();
+  const table = leaderboard[mode];
+  const previousBest = table.length > 0 ? table[0].score : null;
+
+  // Ties keep the earlier run ahead
+  let index = table.findIndex(e => e.score < entry.score);
+  if (index === -1) index = table.length;
+  if (index >= LEADERBOARD_SIZE) {
+    return { rank: null, isNewBest: false };
+  }
+
+  table.splice(index, 0, entry);
+  leaderboard[mode] = table.slice(0, LEADERBOARD_SIZE);
+  await AsyncStorage.setItem(LEADERBOARD_KEY, JSON.stringify(leaderboard));
+
+  return {
+    rank: index + 1,
+    isNewBest: previousBest === null || entry.score > previousBest,
+  };
+}
+
+export async function clearLeaderboard(mode: ScoredMode): Promise<void> {
+  const leaderboard = await loadLeaderboard();
+  leaderboard[mode] = [];
+  await AsyncStorage.setItem(LEADERBOARD_KEY, JSON.stringify(leaderboard));
+}
@@ -0,0 +1,62 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const LEVEL_PROGRESS_KEY = 'snowball:level-progress';
+
+export interface LevelProgress {
+  // Best score on a finished run
+  bestScore: number;
+  stars: number;
+  completedAt: string;
+}
+
+export type LevelProgressMap = Record<string, LevelProgress>;
+
+export interface LevelSubmission {
+  isNewBest: boolean;
+  // Stars after this run, which never go down
+  stars: number;
+}
+
+function isProgress(value: unknown): value is LevelProgress {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.bestScore === 'number' &&
+    typeof entry.stars === 'number' &&
+    typeof entry.completedAt === 'string'
+  );
+}
+
+export async function loadLevelProgress(): Promise<LevelProgressMap> {
+  const raw = await AsyncStorage.getItem(LEVEL_PROGRESS_KEY);
+  if (!raw) return {};
+
+  try {
+    const data: unknown = JSON.parse(raw);
+    if (typeof data !== 'object' || data === null) return {};
+    const progress: LevelProgressMap = {};
+    for (const [levelId, entry] of Object.entries(data)) {
+      if (isProgress(entry)) progress[levelId] = entry;
+    }
+    return progress;
+  } catch (error) {
+    console.log('Error reading level progress:', error);
+    return {};
+  }
+}
+
+// Records a finished run on a level, keeping the best score and the most stars seen
+export async function submitLevelResult(levelId: string, score: number, stars: number): Promise<LevelSubmission> {
+  const progress = await loadLevelProgress();
+  const current = progress[levelId];
+  const isNewBest = !current || score > current.bestScore;
+
+  progress[levelId] = {
+    bestScore: isNewBest ? score : current.bestScore,
+    stars: Math.max(stars, current?.stars ?? 0),
+    completedAt: isNewBest ? new Date().toISOString() : current.completedAt,
+  };
+  await AsyncStorage.setItem(LEVEL_PROGRESS_KEY, JSON.stringify(progress));
+
+  return { isNewBest, stars: progress[levelId].stars };
+}
@@ -0,0 +1,49 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { ACTIVE_MISSIONS, createMissionLog, isMissionKind, type Mission, type MissionLog } from '@/game/missions';
+
+const MISSIONS_KEY = 'snowball:missions';
+
+function isMission(value: unknown): value is Mission {
+  if (typeof value !== 'object' || value === null) return false;
+  const mission = value as Record<string, unknown>;
+  return isMissionKind(mission.kind) && typeof mission.goal === 'number' && typeof mission.reward === 'number';
+}
+
+// Saved straight away, so the missions drawn stay put until they're completed rather than being
+// drawn again on every launch
+async function startMissionLog(): Promise<MissionLog> {
+  const log = createMissionLog();
+  try {
+    await saveMissions(log);
+  } catch (error) {
+    console.log('Error saving missions:', error);
+  }
+  return log;
+}
+
+// A first launch, or a log that can't be read, starts over with fresh missions
+export async function loadMissions(): Promise<MissionLog> {
+  const raw = await AsyncStorage.getItem(MISSIONS_KEY);
+  if (!raw) return startMissionLog();
+
+  try {
+    const data = JSON.parse(raw) as Partial<Record<keyof MissionLog, unknown>>;
+    if (
+      Array.isArray(data.active) &&
+      data.active.length === ACTIVE_MISSIONS &&
+      data.active.every(isMission) &&
+      typeof data.completed === 'number' &&
+      typeof data.rewards === 'number'
+    ) {
+      return { active: data.active, completed: data.completed, rewards: data.rewards };
+    }
+  } catch (error) {
+    console.log('Error reading missions:', error);
+  }
+  return startMissionLog();
+}
+
+export async function saveMissions(log: MissionLog) {
+  await AsyncStorage.setItem(MISSIONS_KEY, JSON.stringify(log));
+}
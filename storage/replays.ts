@@ -0,0 +1,49 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { parseReplay, serializeReplay, type Replay } from '@/game/replay';
+
+const REPLAYS_KEY = 'snowball:replays';
+const MAX_SAVED_REPLAYS = 20;
+
+// Newest first
+export async function listReplays(): Promise<Replay[]> {
+  const raw = await AsyncStorage.getItem(REPLAYS_KEY);
+  if (!raw) return [];
+
+  try {
+    const entries: unknown = JSON.parse(raw);
+    if (!Array.isArray(entries)) return [];
+    const replays: Replay[] = [];
+    for (const entry of entries) {
+      try {
+        replays.push(parseReplay(JSON.stringify(entry)));
+      } catch (error) {
+        console.log('Dropping unreadable replay:', error);
+      }
+    }
+    return replays;
+  } catch (error) {
+    console.log('Error reading replays:', error);
+    return [];
+  }
+}
+
+async function writeReplays(replays: Replay[]) {
+  await AsyncStorage.setItem(REPLAYS_KEY, `[${replays.map(serializeReplay).join(',')}]`);
+}
+
+export async function saveReplay(replay: Replay): Promise<void> {
+  const replays = (await listReplays()).filter(r => r.id !== replay.id);
+  replays.unshift(replay);
+  await writeReplays(replays.slice(0, MAX_SAVED_REPLAYS));
+}
+
+export async function loadReplay(id: string): Promise<Replay | null> {
+  const replays = await listReplays();
+  return replays.find(r => r.id === id) ?? null;
+}
+
+export async function deleteReplay(id: string): Promise<void> {
+  const replays = await listReplays();
+  await writeReplays(replays.filter(r => r.id !== id));
+}
@@ -0,0 +1,48 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { isDeathCause, type RunSummary } from '@/game/summary';
+import type { GameMode } from '@/game/types';
+
+const RUN_HISTORY_KEY = 'snowball:runs';
+export const RUN_HISTORY_SIZE = 100;
+
+const MODES: readonly GameMode[] = ['endless', 'daily', 'custom', 'level'];
+const COUNTS = ['score', 'distance', 'time', 'topSpeed', 'jumps', 'doubleJumps', 'gifts', 'giftsSpawned', 'nearMisses', 'bestCombo'] as const;
+
+function isRunSummary(value: unknown): value is RunSummary {
+  if (typeof value !== 'object' || value === null) return false;
+  const run = value as Record<string, unknown>;
+  return (
+    typeof run.date === 'string' &&
+    MODES.includes(run.mode as GameMode) &&
+    typeof run.seed === 'number' &&
+    (run.levelId === undefined || typeof run.levelId === 'string') &&
+    COUNTS.every(key => typeof run[key] === 'number') &&
+    (run.cause === null || isDeathCause(run.cause))
+  );
+}
+
+// The last RUN_HISTORY_SIZE counted runs, newest first. Entries that can't be read are dropped.
+export async function loadRunHistory(): Promise<RunSummary[]> {
+  const raw = await AsyncStorage.getItem(RUN_HISTORY_KEY);
+  if (!raw) return [];
+
+  try {
+    const data = JSON.parse(raw) as unknown;
+    if (Array.isArray(data)) return data.filter(isRunSummary);
+  } catch (error) {
+    console.log('Error reading run history:', error);
+  }
+  return [];
+}
+
+// Puts `run` at the top of the history, letting the oldest run go once there are too many
+export async function addRunToHistory(run: RunSummary): Promise<RunSummary[]> {
+  const history = [run, ...(await loadRunHistory())].slice(0, RUN_HISTORY_SIZE);
+  await AsyncStorage.setItem(RUN_HISTORY_KEY, JSON.stringify(history));
+  return history;
+}
+
+export async function clearRunHistory(): Promise<void> {
+  await AsyncStorage.removeItem(RUN_HISTORY_KEY);
+}
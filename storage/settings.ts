@@ -0,0 +1,59 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+import { DEFAULT_THEME, type ThemeId } from '@/constants/colors';
+
+const SETTINGS_KEY = 'snowball:settings';
+
+export interface Settings {
+  // Volumes run from 0 (muted) to 1
+  musicVolume: number;
+  sfxVolume: number;
+  haptics: boolean;
+  // Drops the falling snow and the rolling spin on the snowball
+  reducedMotion: boolean;
+  showFps: boolean;
+  theme: ThemeId;
+}
+
+interface SettingsStore extends Settings {
+  update: (changes: Partial<Settings>) => void;
+  reset: () => void;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  musicVolume: 0.55,
+  sfxVolume: 0.8,
+  haptics: true,
+  reducedMotion: false,
+  showFps: false,
+  theme: DEFAULT_THEME,
+};
+
+/**
+ * Player preferences, shared by every screen and saved as they change. Read them with the hook
+ * to re-render on change, or with `useSettings.getState()` inside callbacks that should always
+ * see the latest values.
+ */
+export const useSettings = create<SettingsStore>()(
+  persist(
+    set => ({
+      ...DEFAULT_SETTINGS,
+      update: changes => set(changes),
+      reset: () => set(DEFAULT_SETTINGS),
+    }),
+    {
+      name: SETTINGS_KEY,
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: ({ musicVolume, sfxVolume, haptics, reducedMotion, showFps, theme }): Settings => ({
+        musicVolume,
+        sfxVolume,
+        haptics,
+        reducedMotion,
+        showFps,
+        theme,
+      }),
+    },
+  ),
+);
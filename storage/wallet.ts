@@ -0,0 +1,90 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+
+import { createWallet, SHOP_ITEMS, type ShopCategory, type Wallet } from '@/game/shop';
+
+// The wallet is written to these two keys in turn, each copy stamped with a revision. A write
+// cut short by the app being killed can only spoil the copy being written, so loading picks the
+// newest copy that still reads back whole, at worst losing just the last change.
+const WALLET_KEYS = ['snowball:wallet:a', 'snowball:wallet:b'] as const;
+
+interface WalletRecord {
+  revision: number;
+  wallet: Wallet;
+}
+
+function parseRecord(raw: string | null): WalletRecord | null {
+  if (!raw) return null;
+  try {
+    const data = JSON.parse(raw) as { revision?: unknown; wallet?: Record<string, unknown> };
+    const wallet = data.wallet;
+    if (typeof data.revision !== 'number' || typeof wallet !== 'object' || wallet === null) return null;
+    if (typeof wallet.gifts !== 'number' || wallet.gifts < 0 || !Array.isArray(wallet.owned)) return null;
+
+    const defaults = createWallet();
+    const equipped = (wallet.equipped ?? {}) as Partial<Record<ShopCategory, unknown>>;
+    const owned = wallet.owned.filter((id): id is string => typeof id === 'string');
+    const equip = (category: ShopCategory) => {
+      const id = equipped[category];
+      return typeof id === 'string' && SHOP_ITEMS.some(item => item.id === id) ? id : defaults.equipped[category];
+    };
+    return {
+      revision: data.revision,
+      wallet: { gifts: wallet.gifts, owned, equipped: { snowball: equip('snowball'), tiles: equip('tiles') } },
+    };
+  } catch (error) {
+    console.log('Error reading wallet:', error);
+    return null;
+  }
+}
+
+/**
+ * The loaded wallet, for screens to read and re-render on; null until `loadWallet` has run.
+ * Change it only through `updateWallet`, which saves it first.
+ */
+export const useWallet = create<{ wallet: Wallet | null }>(() => ({ wallet: null }));
+
+let revision = 0;
+// Updates run one after another, so each builds on the last one's saved result
+let queue: Promise<unknown> = Promise.resolve();
+
+async function readWallet(): Promise<Wallet> {
+  const records = (await AsyncStorage.multiGet(WALLET_KEYS)).map(([, raw]) => parseRecord(raw));
+  const newest = records.reduce<WalletRecord | null>(
+    (best, record) => (record && (!best || record.revision > best.revision) ? record : best),
+    null,
+  );
+  revision = newest?.revision ?? 0;
+  const wallet = newest?.wallet ?? createWallet();
+  useWallet.setState({ wallet });
+  return wallet;
+}
+
+// Reads storage once; every later call gets the wallet as it stands in memory
+let loading: Promise<Wallet> | null = null;
+
+export async function loadWallet(): Promise<Wallet> {
+  const current = useWallet.getState().wallet;
+  if (current) return current;
+  loading ??= readWallet().finally(() => {
+    loading = null;
+  });
+  return loading;
+}
+
+/**
+ * Applies `change` to the wallet and saves the result. Errors thrown by `change` reject the
+ * returned promise and leave the wallet as it was.
+ */
+export function updateWallet(change: (wallet: Wallet) => Wallet): Promise<Wallet> {
+  const update = queue.then(async () => {
+    const wallet = change(await loadWallet());
+    const next = revision + 1;
+    await AsyncStorage.setItem(WALLET_KEYS[next % 2], JSON.stringify({ revision: next, wallet }));
+    revision = next;
+    useWallet.setState({ wallet });
+    return wallet;
+  });
+  queue = update.catch(() => undefined);
+  return update;
+}